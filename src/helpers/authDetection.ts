@@ -1,5 +1,22 @@
-import type { Page, Cookie } from "playwright";
+import type { BrowserContext, Cookie, Page } from "playwright";
 import { makeScholarvoxUrl, getScholarVoxIframeUrl } from "./scholarVox.js";
+import { getEndpoints, isScholarVoxDomain } from "../utils/endpoints.js";
+
+// Shown by the reader instead of the book when the session is not logged in
+export const AUTH_WALL_TEXT =
+  "Pour consulter cet ouvrage dans son intégralité, veuillez vous authentifier";
+
+/**
+ * Whether `page` (the reader or its iframe) shows the login-required message
+ */
+export async function hasAuthWall(page: Page): Promise<boolean> {
+  return page
+    .evaluate(
+      text => document.body?.innerText.includes(text) ?? false,
+      AUTH_WALL_TEXT
+    )
+    .catch(() => false);
+}
 
 export type AuthCheck = {
   authenticated: boolean;
@@ -12,9 +29,7 @@ function normalizeDomain(d: string): string {
 }
 
 function detectAuthFromCookies(all: Cookie[], debug = false): AuthCheck {
-  const svx = all.filter(c =>
-    normalizeDomain(c.domain).includes("scholarvox.com")
-  );
+  const svx = all.filter(c => isScholarVoxDomain(c.domain));
   const matched: string[] = [];
 
   const hasSession = svx.some(c => /^sfsessid/i.test(c.name));
@@ -46,11 +61,20 @@ function detectAuthFromCookies(all: Cookie[], debug = false): AuthCheck {
     authenticated,
     note: authenticated
       ? `Authenticated via SFSESSID + signal.`
-      : `Not authenticated: missing SFSESSID on scholarvox.com.`,
+      : `Not authenticated: missing SFSESSID on ${getEndpoints().cookieDomain}.`,
     matched,
   };
 }
 
+/**
+ * Whether the context still holds the ScholarVox session cookie
+ */
+export async function hasSessionCookie(
+  context: BrowserContext
+): Promise<boolean> {
+  return detectAuthFromCookies(await context.cookies()).authenticated;
+}
+
 export type WaitDetectOptions = {
   docid?: string;
   waitForIframe?: boolean;
@@ -1,10 +1,11 @@
-import type { Page } from "playwright";
+import type { Page, Response } from "playwright";
+import { makeCatalogUrl } from "./scholarVox.js";
 
 export type BookStatus = "FOUND" | "REMOVED" | "NOT_FOUND" | "AVAILABLE_SOON";
 
 /**
- * Check availability on the catalog page:
- *   https://univ.scholarvox.com/catalog/book/docid/<docid>
+ * Check availability on the catalog page (see makeCatalogUrl):
+ *   <baseUrl>/catalog/book/docid/<docid>
  *
  * Signals:
  *  - REMOVED: presence of .removedFlag or "Cet ouvrage n'est plus disponible".
@@ -17,14 +18,24 @@ export async function checkBookStatus(
   docid: string,
   timeoutMs = 15000
 ): Promise<BookStatus> {
-  const catalogUrl = `https://univ.scholarvox.com/catalog/book/docid/${encodeURIComponent(
-    docid
-  )}`;
-
   const resp = await page
-    .goto(catalogUrl, { waitUntil: "domcontentloaded", timeout: timeoutMs })
+    .goto(makeCatalogUrl(docid), {
+      waitUntil: "domcontentloaded",
+      timeout: timeoutMs,
+    })
     .catch(() => null);
 
+  return readBookStatus(page, resp);
+}
+
+/**
+ * Classify the catalog page currently loaded in `page` (no navigation).
+ * `resp` is the navigation response, or null if the request failed.
+ */
+export async function readBookStatus(
+  page: Page,
+  resp: Response | null
+): Promise<BookStatus> {
   // If the request itself failed or is not OK, treat as NOT_FOUND.
   if (!resp || !resp.ok()) return "NOT_FOUND";
 
@@ -54,7 +65,9 @@ export async function checkBookStatus(
 
   // Check for "available soon" status
   const pageContent = await page.content();
-  if (pageContent.toLowerCase().includes("cet ouvrage sera bientôt disponible")) {
+  if (
+    pageContent.toLowerCase().includes("cet ouvrage sera bientôt disponible")
+  ) {
     return "AVAILABLE_SOON";
   }
 
@@ -1,88 +1,246 @@
 // src/helpers/bookMeta.ts
 import { Page } from "playwright";
+import { stripAccents } from "../utils/text.js";
+import { makeCatalogUrl } from "./scholarVox.js";
 
-export async function getBookTitle(
-  page: Page,
-  docid: string
-): Promise<string | null> {
-  const url = `https://univ.scholarvox.com/catalog/book/docid/${encodeURIComponent(
-    docid
-  )}`;
-  await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
-
-  // Try to get the title from the most specific selector first
-  const titleText = await page.evaluate(() => {
-    // Priority 1: Look for .title h2 (this contains the actual book title)
-    const titleH2 = document.querySelector(".title h2");
-    if (titleH2?.textContent?.trim()) {
-      return titleH2.textContent.trim();
-    }
+export type BookMetadata = {
+  docid: string;
+  catalogUrl: string;
+  title: string | null; // raw title, as shown on the catalog page
+  subtitle: string | null;
+  authors: string[];
+  publisher: string | null;
+  year: number | null;
+  isbns: string[];
+  language: string | null;
+  collection: string | null;
+  description: string | null;
+  coverUrl: string | null;
+  pageCount: number | null;
+};
 
-    // Priority 2: Try .book-title class
-    const bookTitleClass = document.querySelector(".book-title");
-    if (bookTitleClass?.textContent?.trim()) {
-      return bookTitleClass.textContent.trim();
-    }
+/**
+ * Turn a title into a safe filename fragment: invalid characters removed,
+ * whitespace collapsed to hyphens, length capped.
+ */
+export function sanitizeFilename(text: string, maxLength = 100): string {
+  return text
+    .replace(/[<>:"/\\|?*]/g, "") // Remove invalid filename characters
+    .replace(/\s+/g, "-") // Replace spaces with hyphens
+    .replace(/-+/g, "-") // Replace multiple hyphens with single hyphen
+    .replace(/^-|-$/g, "") // Remove leading/trailing hyphens
+    .substring(0, maxLength); // Limit length
+}
 
-    // Priority 3: Try h1 in the main content area
-    const h1 = document.querySelector("main h1, .content h1, .book-info h1");
-    if (h1?.textContent?.trim()) {
-      return h1.textContent.trim();
-    }
+// Label (lowercase, accents stripped) -> metadata field
+const FIELD_LABELS: Array<[RegExp, keyof BookMetadata]> = [
+  [/^(auteurs?|authors?|de|par)$/, "authors"],
+  [/^(editeurs?|publisher|edition|maison d'edition)$/, "publisher"],
+  [/^(date( de)? (parution|publication)|parution|annee|year|date)$/, "year"],
+  [/^(isbn|isbn[- ]?1[03]|ean|isbn (papier|numerique|electronique))$/, "isbns"],
+  [/^(langues?|language)$/, "language"],
+  [/^(collection|serie)$/, "collection"],
+  [/^(nombre de pages|pages?)$/, "pageCount"],
+  [/^(resume|description|presentation)$/, "description"],
+];
 
-    return null;
-  });
-  
-  if (titleText && titleText.length > 0) {
-    // Sanitize the title for use as a filename
-    return titleText
-      .replace(/[<>:"/\\|?*]/g, "") // Remove invalid filename characters
-      .replace(/\s+/g, "-") // Replace spaces with hyphens
-      .replace(/-+/g, "-") // Replace multiple hyphens with single hyphen
-      .replace(/^-|-$/g, "") // Remove leading/trailing hyphens
-      .substring(0, 100); // Limit length
+function normalizeLabel(label: string): string {
+  return stripAccents(label)
+    .toLowerCase()
+    .replace(/\(s\)/g, "s") // "Auteur(s)" -> "auteurs"
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function splitAuthors(value: string): string[] {
+  return value
+    .split(/\s*(?:[;,&]|\bet\b|\band\b)\s*/)
+    .map(a => a.trim())
+    .filter(a => a.length > 0);
+}
+
+function extractIsbns(value: string): string[] {
+  const found = value.match(/\b(?:97[89][- ]?)?(?:\d[- ]?){9}[\dXx]\b/g) ?? [];
+  return found.map(i => i.replace(/[- ]/g, "").toUpperCase());
+}
+
+/**
+ * Apply "Label : value" lines from the catalog detail blocks to `meta`.
+ * Unknown labels are ignored; the first value seen for a field wins.
+ */
+export function applyLabeledFields(meta: BookMetadata, lines: string[]) {
+  for (const line of lines) {
+    const m = line.match(/^([^:]{2,40}?)\s*[:\-–]\s*(.+)$/);
+    if (!m) continue;
+    const label = normalizeLabel(m[1]);
+    const value = m[2].trim();
+    const field = FIELD_LABELS.find(([re]) => re.test(label))?.[1];
+
+    switch (field) {
+      case "authors":
+        if (meta.authors.length === 0) meta.authors = splitAuthors(value);
+        break;
+      case "isbns":
+        for (const isbn of extractIsbns(value))
+          if (!meta.isbns.includes(isbn)) meta.isbns.push(isbn);
+        break;
+      case "year": {
+        const y = value.match(/\b(1[5-9]\d\d|20\d\d)\b/);
+        if (meta.year === null && y) meta.year = parseInt(y[1], 10);
+        break;
+      }
+      case "pageCount": {
+        const n = value.match(/^(\d{1,5})\b/);
+        if (meta.pageCount === null && n) meta.pageCount = parseInt(n[1], 10);
+        break;
+      }
+      case "publisher":
+      case "language":
+      case "collection":
+      case "description":
+        if (meta[field] === null) meta[field] = value;
+        break;
+    }
   }
-  
-  return null;
 }
 
-export async function getBookTotalPages(
+/**
+ * Read the metadata of the catalog page currently loaded in `page`
+ * (no navigation).
+ */
+export async function readBookMetadata(
   page: Page,
   docid: string
-): Promise<number | null> {
-  const url = `https://univ.scholarvox.com/catalog/book/docid/${encodeURIComponent(
-    docid
-  )}`;
-  await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
-
-  // Try specific DOM locations first
-  const fromDom = await page.evaluate(() => {
-    // Look near labels like "pages:" or "Pages :" in book detail columns
-    const candidates = Array.from(
+): Promise<BookMetadata> {
+  const raw = await page.evaluate(() => {
+    const text = (el: Element | null | undefined) =>
+      el?.textContent?.replace(/\s+/g, " ").trim() || null;
+
+    // Priority 1: .title h2 (this contains the actual book title)
+    // Priority 2: .book-title class
+    // Priority 3: h1 in the main content area
+    const title =
+      text(document.querySelector(".title h2")) ??
+      text(document.querySelector(".book-title")) ??
+      text(document.querySelector("main h1, .content h1, .book-info h1"));
+
+    const subtitle = text(
+      document.querySelector(".title h3, .subtitle, .book-subtitle")
+    );
+
+    // "Label : value" lines from the detail columns
+    const lines = Array.from(
+      document.querySelectorAll(
+        "div.leftColumn p, div.rightColumn p, .showRoom p, div.leftColumn li, div.rightColumn li, .showRoom li"
+      )
+    )
+      .map(el => text(el))
+      .filter((t): t is string => !!t);
+
+    const authorLinks = Array.from(
       document.querySelectorAll(
-        "div.leftColumn p, div.rightColumn p, .showRoom p"
+        ".showRoom .author a, .showRoom .authors a, .title .author a, a[href*='/catalog/search/author']"
+      )
+    )
+      .map(el => text(el))
+      .filter((t): t is string => !!t);
+
+    const description = text(
+      document.querySelector(
+        ".showRoom .description, .showRoom .resume, #description, .summary"
       )
     );
-    for (const p of candidates) {
-      const txt = p.textContent?.replace(/\s+/g, " ").trim() ?? "";
-      // e.g., "pages: 30" or "Pages : 30"
-      const m = txt.match(/\bpages?\b\s*[:\-–]\s*(\d{1,5})\b/i);
-      if (m && m[1]) return parseInt(m[1], 10);
-    }
-    return null;
+
+    const cover = document.querySelector(
+      ".showRoom img, .leftColumn img, img.cover, .cover img"
+    ) as HTMLImageElement | null;
+
+    return {
+      title,
+      subtitle,
+      lines,
+      authorLinks,
+      description,
+      coverUrl: cover?.src || null,
+      bodyText: document.body.innerText.replace(/\s+/g, " "),
+    };
   });
-  if (fromDom && Number.isFinite(fromDom) && fromDom > 0) return fromDom;
+
+  const meta: BookMetadata = {
+    docid,
+    catalogUrl: makeCatalogUrl(docid),
+    title: raw.title,
+    subtitle: raw.subtitle,
+    authors: [...new Set(raw.authorLinks)],
+    publisher: null,
+    year: null,
+    isbns: [],
+    language: null,
+    collection: null,
+    description: raw.description,
+    coverUrl: raw.coverUrl,
+    pageCount: null,
+  };
+
+  applyLabeledFields(meta, raw.lines);
+
+  // "pages: 30" may also appear in the middle of a detail line
+  if (meta.pageCount === null) {
+    for (const line of raw.lines) {
+      const m = line.match(/\bpages?\b\s*[:\-–]\s*(\d{1,5})\b/i);
+      if (m && m[1]) {
+        meta.pageCount = parseInt(m[1], 10);
+        break;
+      }
+    }
+  }
 
   // Fallback: text-only match but bounded by a "pages" label (avoid years etc.)
-  const text = await page.evaluate(() =>
-    document.body.innerText.replace(/\s+/g, " ")
-  );
-  const m = text.match(
-    /\b(?:nombre\s+de\s+pages|pages?)\b\s*[:\-–]\s*(\d{1,5})\b/i
-  );
-  if (m && m[1]) {
-    const n = parseInt(m[1], 10);
-    if (Number.isFinite(n) && n > 0) return n;
+  if (meta.pageCount === null) {
+    const m = raw.bodyText.match(
+      /\b(?:nombre\s+de\s+pages|pages?)\b\s*[:\-–]\s*(\d{1,5})\b/i
+    );
+    if (m && m[1]) meta.pageCount = parseInt(m[1], 10);
+  }
+  if (meta.pageCount !== null && !(meta.pageCount > 0)) meta.pageCount = null;
+
+  if (meta.isbns.length === 0) {
+    const m = raw.bodyText.match(/\bISBN[^:]*:\s*([\dXx -]{10,20})/i);
+    if (m) meta.isbns = extractIsbns(m[1]);
   }
-  return null;
+
+  return meta;
+}
+
+/**
+ * Load the catalog page of `docid` and read its metadata
+ */
+export async function getBookMetadata(
+  page: Page,
+  docid: string
+): Promise<BookMetadata> {
+  await page.goto(makeCatalogUrl(docid), {
+    waitUntil: "domcontentloaded",
+    timeout: 30000,
+  });
+  return readBookMetadata(page, docid);
+}
+
+/**
+ * Book title sanitized for use as a filename
+ */
+export async function getBookTitle(
+  page: Page,
+  docid: string
+): Promise<string | null> {
+  const { title } = await getBookMetadata(page, docid);
+  return title ? sanitizeFilename(title) : null;
+}
+
+export async function getBookTotalPages(
+  page: Page,
+  docid: string
+): Promise<number | null> {
+  const { pageCount } = await getBookMetadata(page, docid);
+  return pageCount;
 }
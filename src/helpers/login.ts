@@ -1,10 +1,12 @@
 // src/helpers/login.ts
 import type { Page } from "playwright";
 import { waitAndDetectAuth, type AuthCheck } from "./authDetection.js";
+import { endpointUrl, getEndpoints } from "../utils/endpoints.js";
+import { getConfig } from "../utils/config.js";
 
 export type LoginOptions = {
-  loginUrl?: string; // e.g., https://univ.scholarvox.com/cesiwayf
-  institutionSlug?: string; // e.g., 'cesi' -> https://univ.scholarvox.com/cesiwayf
+  loginUrl?: string; // e.g., https://univ.scholarvox.com/saml-sp/viacesi
+  institutionSlug?: string; // e.g., 'cesi' -> the WAYF page, <baseUrl>/cesiwayf
   timeoutMs?: number; // total time to poll for auth
   pollEveryMs?: number; // polling cadence
   fallbackToHomepage?: boolean;
@@ -19,20 +21,24 @@ export async function openLoginEntry(
 
   if (loginUrl) {
     await page
-      .goto(loginUrl, { waitUntil: "domcontentloaded", timeout: 45_000 })
+      .goto(loginUrl, {
+        waitUntil: "domcontentloaded",
+        timeout: getConfig().timeouts.login,
+      })
       .catch(() => {});
   } else if (institutionSlug) {
-    const wayf = `https://univ.scholarvox.com/${encodeURIComponent(
-      institutionSlug
-    )}wayf`;
+    const wayf = endpointUrl("wayf", { institution: institutionSlug });
     await page
-      .goto(wayf, { waitUntil: "domcontentloaded", timeout: 45_000 })
+      .goto(wayf, {
+        waitUntil: "domcontentloaded",
+        timeout: getConfig().timeouts.login,
+      })
       .catch(() => {});
   } else if (fallbackToHomepage) {
     await page
-      .goto("https://univ.scholarvox.com/", {
+      .goto(`${getEndpoints().baseUrl}/`, {
         waitUntil: "domcontentloaded",
-        timeout: 45_000,
+        timeout: getConfig().timeouts.login,
       })
       .catch(() => {});
   }
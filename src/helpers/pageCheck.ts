@@ -0,0 +1,117 @@
+import type { Page } from "playwright";
+import { AUTH_WALL_TEXT } from "./authDetection.js";
+
+/**
+ * Checks that pages of #page-container really rendered before they are
+ * printed: lazy-loading misses otherwise end up as blank PDF pages without
+ * any error.
+ */
+
+export type PageProblem =
+  | "blank" // no loaded image, painted canvas or text
+  | "image" // an image of the page failed or is still loading
+  | "fonts" // a font used by the page's text is not loaded
+  | "paywall"; // the page shows the login-required message
+
+export type PageIssue = {
+  page: number; // 1-indexed
+  problems: PageProblem[];
+};
+
+const PROBLEM_LABELS: Record<PageProblem, string> = {
+  blank: "no content",
+  image: "image not loaded",
+  fonts: "fonts not loaded",
+  paywall: "login required",
+};
+
+/**
+ * Inspect the given pages (1-indexed) and return the ones with problems
+ */
+export async function inspectPages(
+  page: Page,
+  pageNumbers: number[]
+): Promise<PageIssue[]> {
+  return page.evaluate(
+    ({ targetPages, authText }) => {
+      const container = document.getElementById("page-container");
+
+      // Same sampling as printScholarVoxPageToPDF: an all-white canvas is a
+      // placeholder that was never painted
+      const canvasHasNonWhitePixel = (cv: HTMLCanvasElement) => {
+        if (cv.width < 10 || cv.height < 10) return false;
+        try {
+          const ctx = cv.getContext("2d");
+          if (!ctx) return false;
+          return [0.25, 0.5, 0.75].some(f => {
+            const d = ctx.getImageData(
+              Math.floor(cv.width * f),
+              Math.floor(cv.height * f),
+              1,
+              1
+            ).data;
+            return d[3] > 0 && (d[0] < 250 || d[1] < 250 || d[2] < 250);
+          });
+        } catch {
+          return true; // cross-origin pixels cannot be read: assume painted
+        }
+      };
+
+      const issues: Array<{ page: number; problems: string[] }> = [];
+      for (const pageNumber of targetPages) {
+        const el = container?.children[pageNumber - 1] as
+          | HTMLElement
+          | undefined;
+        if (!el) {
+          issues.push({ page: pageNumber, problems: ["blank"] });
+          continue;
+        }
+
+        const problems: string[] = [];
+        const text = (el.textContent ?? "").trim();
+        const images = Array.from(el.querySelectorAll("img"));
+        const loaded = (img: HTMLImageElement) =>
+          img.complete && img.naturalWidth > 10 && img.naturalHeight > 10;
+        const painted =
+          images.some(loaded) ||
+          Array.from(el.querySelectorAll("canvas")).some(
+            canvasHasNonWhitePixel
+          );
+
+        if (text.includes(authText)) problems.push("paywall");
+        if (!painted && !text) problems.push("blank");
+        else if (images.some(img => !loaded(img))) problems.push("image");
+
+        // document.fonts.check() is false while a matching face is not loaded
+        const families = new Set<string>();
+        el.querySelectorAll("*").forEach(node => {
+          const hasText = Array.from(node.childNodes).some(
+            c => c.nodeType === Node.TEXT_NODE && c.textContent?.trim()
+          );
+          if (hasText) families.add(getComputedStyle(node).fontFamily);
+        });
+        if (
+          Array.from(families).some(
+            family => !document.fonts.check(`16px ${family}`)
+          )
+        ) {
+          problems.push("fonts");
+        }
+
+        if (problems.length > 0) issues.push({ page: pageNumber, problems });
+      }
+      return issues;
+    },
+    { targetPages: pageNumbers, authText: AUTH_WALL_TEXT }
+  ) as Promise<PageIssue[]>;
+}
+
+/**
+ * One line per page, e.g. "Page 12: no content, fonts not loaded"
+ */
+export function describeIssues(issues: PageIssue[]): string[] {
+  return issues.map(
+    ({ page, problems }) =>
+      `Page ${page}: ${problems.map(p => PROBLEM_LABELS[p]).join(", ")}`
+  );
+}
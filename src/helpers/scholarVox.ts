@@ -1,12 +1,55 @@
 import { Page } from "playwright";
+import { endpointUrl } from "../utils/endpoints.js";
 
 /**
  * Build ScholarVox reader URL for a specific document and page
  */
 export function makeScholarvoxUrl(docid: string, page: number): string {
-  return `https://univ.scholarvox.com/reader/docid/${encodeURIComponent(
-    docid
-  )}/page/${page}`;
+  return endpointUrl("reader", { docid, page });
+}
+
+/**
+ * Build ScholarVox catalog (book detail) URL for a document
+ */
+export function makeCatalogUrl(docid: string): string {
+  return endpointUrl("catalog", { docid });
+}
+
+export type BookRef = {
+  docid: string;
+  startPage?: number; // page the pasted reader link pointed at (not a range)
+};
+
+/**
+ * Parse a book reference typed or pasted by the user. Accepts a bare docid
+ * ("88853415"), a reader or catalog URL (with or without scheme, query string
+ * or trailing slash), or any text that contains one of those or a single
+ * standalone run of 5 or more digits.
+ * Throws with a user-facing message when no docid can be found.
+ */
+export function parseBookInput(input: string): BookRef {
+  const text = input.trim().replace(/^["'<(\[]+|["'>)\].,;]+$/g, "");
+
+  // Bare docid
+  if (/^\d+$/.test(text)) return { docid: text };
+
+  // .../reader/docid/123/page/45, .../catalog/book/docid/123, ?docid=123
+  const m = text.match(/docid[/=](\d+)(?:\/page\/(\d+))?/i);
+  if (m) {
+    const startPage = m[2] ? parseInt(m[2], 10) : undefined;
+    return startPage && startPage > 0
+      ? { docid: m[1], startPage }
+      : { docid: m[1] };
+  }
+
+  // A docid among other words ("livre 88853415 svp"), if it is the only one
+  const runs = text.match(/(?<![\w/.-])\d{5,}(?![\w/-]|\.\w)/g) ?? [];
+  if (runs.length === 1) return { docid: runs[0] };
+
+  throw new Error(
+    `Invalid book reference "${input.trim()}". Expected a book ID such as 88853415 ` +
+      `or a link such as ${makeScholarvoxUrl("88853415", 1)}`
+  );
 }
 
 /**
@@ -0,0 +1,76 @@
+// src/helpers/tableOfContents.ts
+import type { Page } from "playwright";
+
+export type TocEntry = {
+  title: string;
+  page: number | null; // 1-indexed book page, null if the target is unknown
+  children: TocEntry[];
+};
+
+/**
+ * Scrape the table of contents from the reader iframe. pdf2htmlEX renders the
+ * outline in #sidebar #outline as nested <ul><li><a href="#pf…"> lists; the
+ * href points at a page of #page-container, and data-dest-detail carries the
+ * page number as a fallback.
+ */
+export async function readTableOfContents(
+  iframePage: Page
+): Promise<TocEntry[]> {
+  return iframePage.evaluate(() => {
+    type Entry = { title: string; page: number | null; children: Entry[] };
+
+    const container = document.getElementById("page-container");
+    const pages = container ? Array.from(container.children) : [];
+
+    const targetPage = (a: HTMLAnchorElement): number | null => {
+      const id = (a.getAttribute("href") ?? "").replace(/^#/, "");
+      if (id) {
+        const idx = pages.findIndex(
+          el => el.id === id || el.querySelector(`[id="${id}"]`) !== null
+        );
+        if (idx >= 0) return idx + 1;
+      }
+      try {
+        const detail = JSON.parse(a.getAttribute("data-dest-detail") ?? "");
+        if (Array.isArray(detail) && Number.isInteger(detail[0]))
+          return detail[0];
+      } catch {}
+      return null;
+    };
+
+    const walk = (list: Element): Entry[] =>
+      Array.from(list.children)
+        .filter(li => li.tagName === "LI")
+        .map(li => {
+          const a = li.querySelector(":scope > a") as HTMLAnchorElement | null;
+          const sub = li.querySelector(":scope > ul");
+          return {
+            title: a?.textContent?.replace(/\s+/g, " ").trim() ?? "",
+            page: a ? targetPage(a) : null,
+            children: sub ? walk(sub) : [],
+          };
+        })
+        .filter(e => e.title.length > 0 || e.children.length > 0);
+
+    const root = document.querySelector("#sidebar #outline > ul, #outline ul");
+    return root ? walk(root) : [];
+  });
+}
+
+/**
+ * Render the table of contents as an indented tree, one entry per line
+ */
+export function formatTocTree(entries: TocEntry[], prefix = ""): string {
+  const lines: string[] = [];
+  entries.forEach((entry, i) => {
+    const last = i === entries.length - 1;
+    const page = entry.page !== null ? ` (p. ${entry.page})` : "";
+    lines.push(`${prefix}${last ? "└─ " : "├─ "}${entry.title}${page}`);
+    if (entry.children.length > 0) {
+      lines.push(
+        formatTocTree(entry.children, `${prefix}${last ? "   " : "│  "}`)
+      );
+    }
+  });
+  return lines.join("\n");
+}
@@ -1,409 +1,715 @@
 #!/usr/bin/env node
-import { chromium } from "playwright";
-import readline from "node:readline";
-import fs from "node:fs/promises";
 import path from "node:path";
-import { checkBookStatus } from "./helpers/bookCheck.js";
-import { getBookTitle } from "./helpers/bookMeta.js";
-import { getCredentials } from "./utils/credentials.js";
-import { loginCESI } from "./utils/auth.js";
+import { Command, InvalidArgumentError, Option } from "commander";
+import type { BookMetadata } from "./helpers/bookMeta.js";
+import {
+  credentialStatus,
+  credentialStore,
+  deleteCredentials,
+  envCredentials,
+  getCredentials,
+  loadCredentials,
+  promptCredentials,
+  saveCredentials,
+  type Credentials,
+} from "./utils/credentials.js";
+import {
+  getLoginProvider,
+  listLoginProviders,
+} from "./utils/loginProviders.js";
+import { downloadBook, openReaderWithRelogin } from "./lib/download.js";
+import { withBookSession, type BookSession } from "./lib/session.js";
+import { clearSession, ensureAuthenticated } from "./lib/authSession.js";
+import {
+  formatTocTree,
+  readTableOfContents,
+  type TocEntry,
+} from "./helpers/tableOfContents.js";
+import { parsePageSpec, type PageSpan } from "./utils/pageRange.js";
+import {
+  addAccount,
+  assertAccountName,
+  readAccounts,
+  removeAccount,
+  resolveAccount,
+  setDefaultAccount,
+} from "./utils/accounts.js";
+import { parseBookInput, type BookRef } from "./helpers/scholarVox.js";
+import { DEBUG, Spinner, ask } from "./utils/terminal.js";
+import type { BookStatus } from "./helpers/bookCheck.js";
+import {
+  RENDER_MODES,
+  configFiles,
+  expandHome,
+  getConfig,
+  loadConfig,
+  type RenderMode,
+} from "./utils/config.js";
+import { getEndpoints } from "./utils/endpoints.js";
+import {
+  COLLISION_STRATEGIES,
+  FILENAME_CHARSETS,
+  assertFilenameTemplate,
+  renderFilenameTemplate,
+  resolveCollision,
+  type CollisionStrategy,
+  type FilenameCharset,
+} from "./utils/filenameTemplate.js";
+import {
+  BookUnavailableError,
+  ExitCode,
+  bookStatusExitCode,
+  toVoxFetchError,
+} from "./utils/errors.js";
+
+/**
+ * Check the book's catalog status. Throws BookUnavailableError unless the
+ * book can be downloaded.
+ */
+async function validateBook(session: BookSession): Promise<void> {
+  const spinner = new Spinner();
+  spinner.start("Validating book ID...");
 
-const DEBUG = process.argv.includes("--debug") || process.argv.includes("-d");
+  let status: BookStatus;
+  try {
+    // Loads the catalog page once; metadata is read from the same load
+    status = await session.status();
+  } finally {
+    spinner.stop();
+  }
 
-function log(msg: string) {
-  if (DEBUG) console.log(msg);
+  if (status !== "FOUND") throw new BookUnavailableError(status);
+  console.log("Book ID is valid.\n");
 }
 
-function ask(question: string): Promise<string> {
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
+type OutputFlags = {
+  outputDir?: string;
+  filenameTemplate?: string;
+  filenameCharset?: FilenameCharset;
+};
+
+/**
+ * Output path from the filename template and output directory (flags, or
+ * the config file)
+ */
+function defaultOutputPath(
+  docid: string,
+  meta: BookMetadata | null,
+  opts: OutputFlags = {}
+): string {
+  const config = getConfig();
+  return path.join(
+    opts.outputDir ? expandHome(opts.outputDir) : config.outputDir,
+    renderFilenameTemplate(
+      opts.filenameTemplate ?? config.filenameTemplate,
+      docid,
+      meta,
+      opts.filenameCharset ?? config.filenameCharset
+    )
+  );
+}
 
-  return new Promise(resolve => {
-    rl.question(question, answer => {
-      rl.close();
-      resolve(answer.trim());
-    });
-  });
+/**
+ * Apply the collision strategy; null when the download is skipped because
+ * the output already exists
+ */
+async function outputPathFor(
+  outputPath: string,
+  strategy: CollisionStrategy,
+  split?: string
+): Promise<string | null> {
+  const resolved = await resolveCollision(outputPath, strategy, !!split);
+  if (resolved === null) {
+    console.log(
+      `${outputPath} already exists, skipping (--on-collision skip).`
+    );
+  } else if (resolved !== outputPath) {
+    console.log(`${outputPath} already exists, writing ${resolved} instead.`);
+  }
+  return resolved;
 }
 
-function progressBar(current: number, total: number): string {
-  const pct = Math.round((current / total) * 100);
-  const filled = Math.round((current / total) * 40);
-  const bar = "█".repeat(filled) + "░".repeat(40 - filled);
-  return `   [${bar}] ${pct}% (${current}/${total})`;
+function withPdfExtension(outputPath: string): string {
+  // Ensure the filename ends with .pdf
+  return outputPath.toLowerCase().endsWith(".pdf")
+    ? outputPath
+    : `${outputPath}.pdf`;
 }
 
-class Spinner {
-  private frames = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
-  private frame = 0;
-  private timer: NodeJS.Timeout | null = null;
-  private msg = "";
-
-  start(message: string) {
-    this.msg = message;
-    this.frame = 0;
-    this.timer = setInterval(() => {
-      process.stdout.write(`\r${this.frames[this.frame]} ${this.msg}`);
-      this.frame = (this.frame + 1) % this.frames.length;
-    }, 80);
+function printBookMetadata(meta: BookMetadata) {
+  const rows: Array<[string, string | number | null]> = [
+    ["Book ID", meta.docid],
+    ["Title", meta.title],
+    ["Subtitle", meta.subtitle],
+    ["Authors", meta.authors.join(", ") || null],
+    ["Publisher", meta.publisher],
+    ["Year", meta.year],
+    ["ISBN", meta.isbns.join(", ") || null],
+    ["Language", meta.language],
+    ["Collection", meta.collection],
+    ["Pages", meta.pageCount],
+    ["Cover", meta.coverUrl],
+    ["Catalog", meta.catalogUrl],
+  ];
+  for (const [label, value] of rows) {
+    if (value !== null) console.log(`${`${label}:`.padEnd(12)}${value}`);
   }
+  if (meta.description) console.log(`\n${meta.description}`);
+}
 
-  stop(final?: string) {
-    if (this.timer) {
-      clearInterval(this.timer);
-      this.timer = null;
-    }
-    process.stdout.write("\r" + " ".repeat(100) + "\r");
-    if (final) process.stdout.write(`${final}\n`);
-  }
+function printBanner() {
+  console.log("\n" + "=".repeat(70));
+  console.log("  VOXFETCH-CESI");
+  console.log("  ScholarVox Book Downloader for CESI Students");
+  console.log("=".repeat(70));
+  if (DEBUG) console.log("  Debug mode enabled");
+  console.log("");
 }
 
-async function validateBook(docid: string): Promise<boolean> {
-  const spinner = new Spinner();
-  spinner.start("Validating book ID...");
+/**
+ * Prompt-driven flow, used when voxfetch is run without any command.
+ */
+async function runInteractive() {
+  printBanner();
 
-  const browser = await chromium.launch({ headless: true });
-  const context = await browser.newContext();
-  const page = await context.newPage();
+  const answer = await ask("Enter book ID or link: ");
 
+  if (!answer) {
+    console.log("Error: Book ID is required.\n");
+    process.exit(1);
+  }
+
+  let docid: string;
   try {
-    const status = await checkBookStatus(page, docid);
-    await browser.close();
-
-    switch (status) {
-      case "FOUND":
-        spinner.stop("Book ID is valid.\n");
-        return true;
-      case "REMOVED":
-        spinner.stop(
-          "Error: This book has been removed or is no longer available.\n"
-        );
-        return false;
-      case "AVAILABLE_SOON":
-        spinner.stop(
-          "Error: This book will be available soon but is not currently accessible.\n"
-        );
-        return false;
-      case "NOT_FOUND":
-        spinner.stop(
-          "Error: Book ID not found. Please check the ID and try again.\n"
-        );
-        return false;
-      default:
-        spinner.stop("Error: Unknown book status.\n");
-        return false;
-    }
+    ({ docid } = parseBookInput(answer));
   } catch (err: any) {
-    await browser.close();
-    spinner.stop();
-    log(`Validation error: ${err.message}\n`);
-    return false;
+    console.log(`Error: ${err.message}\n`);
+    process.exit(1);
   }
-}
 
-async function downloadBook(docid: string, outputPath: string) {
-  log(`\nBook ID: ${docid}`);
-  log(`Output: ${outputPath}\n`);
-
-  const creds = await getCredentials();
-  const browser = await chromium.launch({ 
-    headless: true,
-    args: [
-      "--disable-blink-features=AutomationControlled",
-      "--disable-features=site-per-process",
-      "--disable-site-isolation-trials",
-    ],
-  });
-  const context = await browser.newContext({
-    viewport: { width: 1280, height: 800 },
-  });
-  const page = await context.newPage();
+  await withBookSession(docid, async session => {
+    await validateBook(session);
 
-  try {
-    const loginSpinner = new Spinner();
-    loginSpinner.start("Logging in to CESI...");
-    log(`Email: ${creds.email}`);
-    await loginCESI(page, creds.email, creds.password, DEBUG);
-    loginSpinner.stop("Login successful!");
-
-    const loader = new Spinner();
-    loader.start("Loading book reader...");
-    log("\nOpening book...");
-    await page.goto(
-      `https://univ.scholarvox.com/reader/docid/${docid}/page/1`,
-      {
-        waitUntil: "domcontentloaded",
-        timeout: 30000,
-      }
+    // Book metadata gives the default filename and PDF properties
+    const defaultOutput = defaultOutputPath(docid, await session.metadata());
+    const outputAnswer = await ask(`Output file (default: ${defaultOutput}): `);
+    const outputPath = await outputPathFor(
+      withPdfExtension(outputAnswer || defaultOutput),
+      getConfig().onCollision
     );
-
-    await page.waitForTimeout(2000);
-
-    const iframeUrl = await page.evaluate(() => {
-      const iframe = document.querySelector("iframe");
-      return iframe?.src || null;
-    });
-
-    if (!iframeUrl) {
-      loader.stop();
-      throw new Error("No iframe found!");
-    }
-
-    log("Loading content...");
-    log("Viewport: 2800x2100");
-    
-    let iframePage = await context.newPage();
-    await iframePage.setViewportSize({ width: 2800, height: 2100 });
-
-    await iframePage.goto(iframeUrl, {
-      waitUntil: "networkidle",
-      timeout: 15000,
+    if (!outputPath) return;
+
+    console.log("");
+    const config = getConfig();
+    const account = await accountFor(config.account ?? undefined);
+    // Institutions without a login provider sign in in a browser window
+    const creds = getLoginProvider(config.institution)
+      ? await getCredentials(undefined, undefined, { account })
+      : null;
+    const issues = await downloadBook(session, outputPath, creds, {
+      account,
+      institution: config.institution,
     });
+    // The PDF was written, but some pages in it may be blank
+    if (issues.length > 0) process.exitCode = ExitCode.RenderIncomplete;
+  });
+}
 
-    await iframePage.waitForTimeout(3000);
-
-    let totalPages = await iframePage.evaluate(() => {
-      const container = document.getElementById("page-container");
-      return container ? container.children.length : 0;
-    });
+function parseBookArgument(value: string): BookRef {
+  try {
+    return parseBookInput(value);
+  } catch (err: any) {
+    throw new InvalidArgumentError(err.message);
+  }
+}
 
-    // Verify that we got pages - if 0, try reloading
-    if (totalPages === 0) {
-      loader.stop();
-      console.log("\nWarning: Book appears to have 0 pages. Retrying...");
-      
-      const retrySpinner = new Spinner();
-      retrySpinner.start("Reloading book...");
-      
-      await iframePage.close();
-      iframePage = await context.newPage();
-      await iframePage.setViewportSize({ width: 2800, height: 2100 });
-      
-      await iframePage.goto(iframeUrl, {
-        waitUntil: "networkidle",
-        timeout: 15000,
-      });
-      
-      await iframePage.waitForTimeout(3000);
-      
-      totalPages = await iframePage.evaluate(() => {
-        const container = document.getElementById("page-container");
-        return container ? container.children.length : 0;
-      });
-      
-      retrySpinner.stop();
-      
-      if (totalPages === 0) {
-        throw new Error("Book still has 0 pages after retry. The book might be unavailable or there's an access issue.");
-      }
-      
-      console.log("Retry successful!");
-    }
+function parsePagesOption(value: string): PageSpan[] {
+  try {
+    return parsePageSpec(value);
+  } catch (err: any) {
+    throw new InvalidArgumentError(err.message);
+  }
+}
 
-    loader.stop("Book reader loaded successfully.");
+function parseAccountName(value: string): string {
+  try {
+    assertAccountName(value);
+    return value;
+  } catch (err: any) {
+    throw new InvalidArgumentError(err.message);
+  }
+}
 
-    console.log(`\nBook contains ${totalPages} pages.`);
-    console.log("Loading all pages...");
+function parseFilenameTemplate(value: string): string {
+  try {
+    assertFilenameTemplate(value);
+    return value;
+  } catch (err: any) {
+    throw new InvalidArgumentError(err.message);
+  }
+}
 
-    // scroll through pages to trigger lazy loading
-    for (let i = 0; i < totalPages; i++) {
-      const bar = progressBar(i + 1, totalPages);
-      process.stdout.write(`\r${bar}`);
-      // Clear any remaining characters from previous line
-      process.stdout.clearLine(1);
+function parsePositiveInt(value: string): number {
+  const n = parseInt(value, 10);
+  if (!/^\d+$/.test(value.trim()) || n < 1) {
+    throw new InvalidArgumentError("Expected a positive integer.");
+  }
+  return n;
+}
 
-      await iframePage.evaluate(pageIdx => {
-        const container = document.getElementById("page-container");
-        if (!container) return;
-        const el = container.children[pageIdx] as HTMLElement;
-        if (el) el.scrollIntoView({ behavior: "auto", block: "start" });
-      }, i);
+type CredentialFlags = {
+  email?: string;
+  password?: string;
+  account?: string;
+};
+
+type LoginFlags = CredentialFlags & {
+  institution: string;
+  interactiveLogin: boolean;
+};
+
+/**
+ * Credentials for an automated login, or null when the institution has no
+ * login provider and the user signs in by hand in a browser window instead.
+ */
+async function credentialsFor(
+  opts: LoginFlags,
+  account: string | null
+): Promise<Credentials | null> {
+  if (!getLoginProvider(opts.institution)) return null;
+  return getCredentials(opts.email, opts.password, {
+    interactive: false,
+    account,
+  });
+}
 
-      await iframePage.waitForTimeout(200);
-    }
+function accountOption(): Option {
+  return new Option(
+    "--account <name>",
+    "named account to use (defaults to the default account)"
+  ).argParser(parseAccountName);
+}
 
-    console.log("\nAll pages loaded.\n");
+/**
+ * Save credentials given as flags, or prompted for, under `account` (the
+ * unnamed slot when null), and register the named account.
+ */
+/**
+ * The account to log in with: the one given with --account (or in the
+ * config file), else the default account. VOXFETCH_EMAIL/VOXFETCH_PASSWORD
+ * take precedence over the default account and use the unnamed slot.
+ */
+async function accountFor(name?: string): Promise<string | null> {
+  if (name) return resolveAccount(name);
+  return envCredentials() ? null : resolveAccount();
+}
 
-    const spinner = new Spinner();
-    if (DEBUG) spinner.start("Loading fonts...");
+async function saveLogin(opts: CredentialFlags, account: string | null) {
+  const creds =
+    opts.email && opts.password
+      ? { email: opts.email, password: opts.password }
+      : await promptCredentials(false);
+  await saveCredentials(creds.email, creds.password, account);
+  if (account) await addAccount(account, creds.email);
+}
 
-    // wait for fonts
-    await iframePage.evaluate(`(async () => {
-      const fonts = Array.from(document.fonts);
-      await Promise.all(fonts.map(f => f.load().catch(() => {})));
-      await document.fonts.ready;
-    })()`);
+function institutionOption(): Option {
+  const known = listLoginProviders()
+    .map(p => p.id)
+    .join(", ");
+  // The default comes from the config file (see the preAction hook)
+  return new Option(
+    "--institution <slug>",
+    `institution used to sign in (built in: ${known}; others sign in interactively)`
+  );
+}
 
-    if (DEBUG) {
-      spinner.stop("Fonts loaded");
-      spinner.start("Optimizing layout...");
+type InfoFlags = LoginFlags & {
+  json?: boolean;
+  toc?: boolean;
+};
+
+type DownloadFlags = LoginFlags &
+  OutputFlags & {
+    output?: string;
+    onCollision: CollisionStrategy;
+    renderMode?: RenderMode;
+    concurrency?: number;
+    pages?: PageSpan[];
+    restart?: boolean;
+    split?: "chapters";
+    splitDepth: number;
+  };
+
+const program = new Command();
+
+program
+  .name("voxfetch")
+  .description("Download ScholarVox books as PDFs - Made for CESI students")
+  .option("-d, --debug", "print detailed logs")
+  .hook("preAction", async (_, command) => {
+    const config = await loadConfig();
+
+    // Options not given on the command line come from the config file
+    const fromConfig: Record<string, string | number | null> = {
+      institution: config.institution,
+      account: config.account,
+      outputDir: config.outputDir,
+      filenameTemplate: config.filenameTemplate,
+      filenameCharset: config.filenameCharset,
+      onCollision: config.onCollision,
+      renderMode: config.render.mode,
+      concurrency: config.render.concurrency,
+    };
+    for (const option of command.options) {
+      const key = option.attributeName();
+      const value = fromConfig[key];
+      if (value != null && command.getOptionValue(key) === undefined) {
+        command.setOptionValueWithSource(key, value, "config");
+      }
     }
-
-    // reset CSS for printing
-    await iframePage.evaluate(() => {
-      document.body.style.zoom = "1";
-      document.documentElement.style.zoom = "1";
-      document.body.style.overflow = "visible";
-      document.body.style.overflowX = "visible";
-      document.body.style.overflowY = "visible";
-      document.documentElement.style.overflow = "visible";
-      document.body.style.width = "auto";
-      document.body.style.height = "auto";
-      document.body.style.maxWidth = "none";
-      document.body.style.maxHeight = "none";
-      document.body.style.minWidth = "0";
-      document.body.style.minHeight = "0";
-
-      const allDivs = document.querySelectorAll("div");
-      allDivs.forEach(div => {
-        const style = window.getComputedStyle(div);
-        if (style.overflow !== "visible") {
-          (div as HTMLElement).style.overflow = "visible";
-          (div as HTMLElement).style.overflowX = "visible";
-          (div as HTMLElement).style.overflowY = "visible";
-        }
-        if (style.maxWidth !== "none" && style.maxWidth !== "") {
-          (div as HTMLElement).style.maxWidth = "none";
-        }
-        if (style.maxHeight !== "none" && style.maxHeight !== "") {
-          (div as HTMLElement).style.maxHeight = "none";
-        }
-        if (style.clipPath !== "none") {
-          (div as HTMLElement).style.clipPath = "none";
-        }
-      });
-
-      const canvases = document.querySelectorAll("canvas");
-      canvases.forEach(canvas => {
-        canvas.style.maxWidth = "none";
-        canvas.style.maxHeight = "none";
-      });
-
-      const svgs = document.querySelectorAll("svg");
-      svgs.forEach(svg => {
-        (svg as SVGElement).style.maxWidth = "none";
-        (svg as SVGElement).style.maxHeight = "none";
-        (svg as SVGElement).style.overflow = "visible";
+  })
+  .action(runInteractive);
+
+program
+  .command("download")
+  .description("download a book as a PDF")
+  .argument("<book>", "ScholarVox book ID or link", parseBookArgument)
+  .option("-o, --output <path>", "output PDF path")
+  .option("--output-dir <dir>", "folder for the default output path")
+  .option(
+    "--filename-template <template>",
+    'default output path inside the output folder, e.g. "{authors[0].last}/{year} - {title} ({docid}).pdf"',
+    parseFilenameTemplate
+  )
+  .addOption(
+    new Option(
+      "--filename-charset <charset>",
+      "keep accents and other Unicode in file names, or transliterate to ASCII"
+    ).choices(FILENAME_CHARSETS)
+  )
+  .addOption(
+    new Option(
+      "--on-collision <strategy>",
+      "what to do when the output already exists"
+    ).choices(COLLISION_STRATEGIES)
+  )
+  .option(
+    "-p, --pages <ranges>",
+    "only download these pages, e.g. 1-20,45,100-",
+    parsePagesOption
+  )
+  .option("--restart", "discard pages saved by an interrupted download")
+  .addOption(
+    new Option(
+      "--split <mode>",
+      "write one PDF per chapter into a folder named after the book"
+    ).choices(["chapters"])
+  )
+  .option(
+    "--split-depth <depth>",
+    "table of contents level that starts a new file",
+    parsePositiveInt,
+    1
+  )
+  .addOption(
+    new Option(
+      "--render-mode <mode>",
+      "print in checkpointed chunks, all pages at once, or page by page at each page's own size"
+    ).choices(RENDER_MODES)
+  )
+  .option(
+    "--concurrency <tabs>",
+    "reader tabs rendering pages in parallel (with --render-mode page)",
+    parsePositiveInt
+  )
+  .addOption(institutionOption())
+  .option(
+    "--no-interactive-login",
+    "fail instead of opening a browser window when automatic login is not possible"
+  )
+  .addOption(accountOption())
+  .option("--email <email>", "login email (defaults to saved credentials)")
+  .option("--password <password>", "login password")
+  .action(async ({ docid }: BookRef, opts: DownloadFlags) => {
+    const account = await accountFor(opts.account);
+
+    await withBookSession(docid, async session => {
+      await validateBook(session);
+
+      const outputPath = await outputPathFor(
+        withPdfExtension(
+          opts.output ??
+            defaultOutputPath(docid, await session.metadata(), opts)
+        ),
+        opts.onCollision,
+        opts.split
+      );
+      if (!outputPath) return;
+
+      const creds = await credentialsFor(opts, account);
+      const issues = await downloadBook(session, outputPath, creds, {
+        account,
+        institution: opts.institution,
+        interactiveLogin: opts.interactiveLogin,
+        pages: opts.pages,
+        renderMode: opts.renderMode,
+        concurrency: opts.concurrency,
+        restart: opts.restart,
+        split: opts.split,
+        splitDepth: opts.splitDepth,
       });
+      // The PDF was written, but some pages in it may be blank
+      if (issues.length > 0) process.exitCode = ExitCode.RenderIncomplete;
     });
+  });
 
-    if (DEBUG) spinner.stop("Layout optimized");
-
-    const dims = await iframePage.evaluate(() => {
-      const images = document.querySelectorAll("img");
-      if (images.length > 0) {
-        let largest: Element | null = null;
-        let maxArea = 0;
-
-        images.forEach(img => {
-          const imgEl = img as HTMLImageElement;
-          const area = imgEl.naturalWidth * imgEl.naturalHeight;
-          if (area > maxArea) {
-            maxArea = area;
-            largest = imgEl;
-          }
-        });
-
-        if (largest) {
-          const imgEl = largest as HTMLImageElement;
-          if (imgEl.naturalWidth > 0 && imgEl.naturalHeight > 0) {
-            return { width: imgEl.naturalWidth, height: imgEl.naturalHeight };
-          }
-        }
-      }
-      return { width: 1080, height: 1332 };
+program
+  .command("check")
+  .description("check whether a book is available on ScholarVox")
+  .argument("<book>", "ScholarVox book ID or link", parseBookArgument)
+  .action(async ({ docid }: BookRef) => {
+    await withBookSession(docid, async session => {
+      const status = await session.status();
+      console.log(status);
+      process.exitCode = bookStatusExitCode(status);
     });
+  });
 
-    const widthInches = dims.width / 96;
-    const heightInches = dims.height / 96;
-    const scale = 0.4 * (dims.width / 1080);
-
-    if (DEBUG) {
-      log(`Page size: ${dims.width}x${dims.height}px`);
-      log(`PDF size: ${widthInches.toFixed(2)}" x ${heightInches.toFixed(2)}"`);
-      log(`Scale: ${scale.toFixed(3)}\n`);
-    }
+program
+  .command("info")
+  .description("show the catalog metadata of a book")
+  .argument("<book>", "ScholarVox book ID or link", parseBookArgument)
+  .option("--json", "print the metadata as JSON")
+  .option("--toc", "also print the table of contents (requires login)")
+  .addOption(institutionOption())
+  .option(
+    "--no-interactive-login",
+    "fail instead of opening a browser window when automatic login is not possible"
+  )
+  .addOption(accountOption())
+  .option("--email <email>", "login email (defaults to saved credentials)")
+  .option("--password <password>", "login password")
+  .action(async ({ docid }: BookRef, opts: InfoFlags) => {
+    const account = opts.toc ? await accountFor(opts.account) : null;
+    const creds = opts.toc ? await credentialsFor(opts, account) : null;
+
+    await withBookSession(docid, async session => {
+      const meta = await session.metadata();
+      if (!meta) {
+        const status = await session.status();
+        console.log(`${docid}: ${status}`);
+        process.exitCode = bookStatusExitCode(status);
+        return;
+      }
 
-    spinner.start(`Generating PDF (${totalPages} pages)...`);
+      let toc: TocEntry[] | null = null;
+      if (opts.toc) {
+        const authOpts = {
+          institution: opts.institution,
+          interactiveFallback: opts.interactiveLogin,
+          account,
+          docid,
+          debug: DEBUG,
+        };
+        await ensureAuthenticated(session.page, creds, authOpts);
+        // Retried with a fresh login if ScholarVox rejects the session
+        const { iframePage } = await openReaderWithRelogin(
+          session.page,
+          docid,
+          creds,
+          authOpts
+        );
+        toc = await readTableOfContents(iframePage);
+      }
 
-    const pdfBuffer = await iframePage.pdf({
-      width: `${widthInches}in`,
-      height: `${heightInches}in`,
-      printBackground: true,
-      margin: { top: "0mm", right: "0mm", bottom: "0mm", left: "0mm" },
-      scale: scale,
-      preferCSSPageSize: false,
+      if (opts.json) {
+        console.log(JSON.stringify(toc ? { ...meta, toc } : meta, null, 2));
+      } else {
+        printBookMetadata(meta);
+        if (toc) {
+          console.log("\nTable of contents:");
+          console.log(
+            toc.length > 0 ? formatTocTree(toc) : "  (no table of contents)"
+          );
+        }
+      }
     });
+  });
 
-    spinner.stop();
-    if (DEBUG) log("PDF generated");
+program
+  .command("login")
+  .description(
+    "save login credentials to the system keychain (or an encrypted file without one)"
+  )
+  .addOption(accountOption())
+  .option("--email <email>", "login email")
+  .option("--password <password>", "login password")
+  .action(async (opts: CredentialFlags) => {
+    // A new --account name is created by logging in with it
+    await saveLogin(opts, opts.account ?? (await resolveAccount()));
+  });
 
-    await fs.mkdir(path.dirname(outputPath), { recursive: true });
-    await fs.writeFile(outputPath, pdfBuffer);
+type LogoutFlags = {
+  email?: string;
+  account?: string;
+  institution: string;
+};
+
+program
+  .command("logout")
+  .description("delete the saved session and saved credentials")
+  .addOption(accountOption())
+  .addOption(institutionOption())
+  .option(
+    "--email <email>",
+    "account to log out (defaults to saved credentials)"
+  )
+  .action(async (opts: LogoutFlags) => {
+    const named = await resolveAccount(opts.account);
+    if (named) {
+      if (await clearSession(named, true)) {
+        console.log(`Saved session deleted for account: ${named}`);
+      }
+      await deleteCredentials(named);
+      // Left registered, it would stay the default without credentials
+      await removeAccount(named);
+      console.log(`Account "${named}" removed.`);
+      return;
+    }
 
-    const stats = await fs.stat(outputPath);
+    // A locked credential file should not keep the saved data from going
+    const email =
+      opts.email ?? (await loadCredentials().catch(() => null))?.email;
+    // Logins without credentials keep their session under the institution
+    for (const account of new Set([email, opts.institution])) {
+      if (account && (await clearSession(account))) {
+        console.log(`Saved session deleted for: ${account}`);
+      }
+    }
+    await deleteCredentials();
+  });
 
-    console.log("\nDownload complete!");
-    console.log(`  Pages: ${totalPages}`);
-    console.log(`  Size: ${(stats.size / 1024 / 1024).toFixed(2)} MB`);
-    console.log(`  Location: ${outputPath}\n`);
-  } catch (err: any) {
-    console.error(`\nError: ${err.message}`);
-    if (DEBUG) console.error(err.stack);
-    throw err;
-  } finally {
-    await browser.close();
-  }
-}
+const accounts = program
+  .command("accounts")
+  .description("manage named accounts (e.g. student and staff logins)");
+
+accounts
+  .command("list")
+  .description("list the saved accounts")
+  .action(async () => {
+    const registry = await readAccounts();
+    const names = Object.keys(registry.accounts).sort();
+    if (names.length === 0) {
+      console.log(
+        "No named accounts. Add one with `voxfetch accounts add <name>`."
+      );
+      return;
+    }
+    for (const name of names) {
+      const isDefault = name === registry.default;
+      console.log(
+        `${isDefault ? "*" : " "} ${name.padEnd(16)}${registry.accounts[name].email}${isDefault ? " (default)" : ""}`
+      );
+    }
+  });
 
-async function main() {
-  console.log("\n" + "=".repeat(70));
-  console.log("  VOXFETCH-CESI");
-  console.log("  ScholarVox Book Downloader for CESI Students");
-  console.log("=".repeat(70));
-  if (DEBUG) console.log("  Debug mode enabled");
-  console.log("");
+accounts
+  .command("add")
+  .description("save the credentials of a named account")
+  .argument("<name>", "account name", parseAccountName)
+  .option("--email <email>", "login email")
+  .option("--password <password>", "login password")
+  .action(async (name: string, opts: CredentialFlags) => {
+    await saveLogin(opts, name);
+    console.log(`Account "${name}" saved.`);
+  });
 
-  const docid = await ask("Enter book ID: ");
+accounts
+  .command("remove")
+  .description("delete a named account, its credentials and its session")
+  .argument("<name>", "account name", parseAccountName)
+  .action(async (name: string) => {
+    await removeAccount(name);
+    await deleteCredentials(name);
+    await clearSession(name, true);
+    console.log(`Account "${name}" removed.`);
+  });
 
-  if (!docid) {
-    console.log("Error: Book ID is required.\n");
-    process.exit(1);
-  }
+accounts
+  .command("default")
+  .description("use this account when --account is not given")
+  .argument("<name>", "account name", parseAccountName)
+  .action(async (name: string) => {
+    await setDefaultAccount(name);
+    console.log(`Default account: ${name}`);
+  });
 
-  const isValid = await validateBook(docid);
-  if (!isValid) process.exit(1);
+const credentials = program
+  .command("credentials")
+  .description("inspect where login credentials come from");
+
+credentials
+  .command("status")
+  .description("show the credential sources and which one is used")
+  .addOption(accountOption())
+  .option("--email <email>", "login email")
+  .option("--password <password>", "login password")
+  .action(async (opts: CredentialFlags) => {
+    const account = await accountFor(opts.account);
+    if (account) console.log(`Account: ${account}\n`);
+    const sources = await credentialStatus(opts.email, opts.password, account);
+    const active = sources.find(s => s.provides);
+
+    console.log("Credential sources, in lookup order:");
+    for (const { source, detail } of sources) {
+      const marker = source === active?.source ? "*" : " ";
+      console.log(`${marker} ${source.padEnd(9)}${detail}`);
+    }
+    console.log(
+      `\nActive: ${active ? active.source : "none (you will be prompted)"}`
+    );
+    console.log(`\`voxfetch login\` saves to: ${await credentialStore()}`);
+  });
 
-  // Get book title for default filename
-  const spinner = new Spinner();
-  spinner.start("Fetching book information...");
-  
-  const browser = await chromium.launch({ headless: true });
-  const context = await browser.newContext();
-  const page = await context.newPage();
-  
-  const bookTitle = await getBookTitle(page, docid);
-  await browser.close();
-  
-  spinner.stop();
-
-  const defaultFilename = bookTitle ? `${bookTitle}-${docid}.pdf` : `${docid}.pdf`;
-  const defaultOutput = `output/${defaultFilename}`;
-  const outputAnswer = await ask(`Output file (default: ${defaultOutput}): `);
-  let outputPath = outputAnswer || defaultOutput;
+const config = program
+  .command("config")
+  .description("inspect the settings from voxfetch.config.json");
+
+config
+  .command("show")
+  .description("print the effective settings and the files they come from")
+  .option("--json", "print only the settings, as JSON")
+  .action((opts: { json?: boolean }) => {
+    const effective = {
+      ...getConfig(),
+      logLevel: DEBUG ? "debug" : getConfig().logLevel,
+      endpoints: getEndpoints(), // with environment overrides
+    };
+    if (opts.json) {
+      console.log(JSON.stringify(effective, null, 2));
+      return;
+    }
 
-  // Ensure the filename ends with .pdf
-  if (!outputPath.toLowerCase().endsWith('.pdf')) {
-    outputPath += '.pdf';
-  }
+    console.log("Config files, in merge order (later ones win):");
+    for (const file of configFiles()) {
+      console.log(
+        `  ${(file.found ? "found" : "missing").padEnd(9)}${file.path}`
+      );
+    }
+    console.log("\nEffective settings (flags still override them):");
+    console.log(JSON.stringify(effective, null, 2));
+  });
 
-  console.log("");
-  await downloadBook(docid, outputPath);
-}
+// A closed pipe (`voxfetch config show | head`) is not an error
+process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+  if (err.code === "EPIPE") process.exit(0);
+  throw err;
+});
 
-main().catch(err => {
-  console.error("Fatal error:", err);
-  process.exit(1);
+program.parseAsync().catch(err => {
+  const error = toVoxFetchError(err);
+  console.error(`\nError: ${error.message}`);
+  if (DEBUG) console.error(error.stack);
+  process.exit(error.exitCode);
 });
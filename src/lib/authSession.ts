@@ -0,0 +1,289 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { BrowserContext, Page } from "playwright";
+import {
+  hasAuthWall,
+  hasSessionCookie,
+  waitAndDetectAuth,
+} from "../helpers/authDetection.js";
+import { makeScholarvoxUrl } from "../helpers/scholarVox.js";
+import {
+  checkAuthNow,
+  performInteractiveLogin,
+  type LoginOptions,
+} from "../helpers/login.js";
+import { loginWithProvider, printLoginFailure } from "../utils/auth.js";
+import {
+  DEFAULT_INSTITUTION,
+  getLoginProvider,
+  providerEntryUrl,
+} from "../utils/loginProviders.js";
+import { withBrowser } from "./browser.js";
+import type { Credentials } from "../utils/credentials.js";
+import { statePath } from "../utils/paths.js";
+import { getConfig } from "../utils/config.js";
+import { SessionExpiredError, VoxFetchError } from "../utils/errors.js";
+
+/**
+ * Saved ScholarVox sessions: the browser storage state (cookies) of a logged
+ * in context is kept per account under .voxfetch-cesi/sessions/, so later
+ * runs can skip the SAML round-trip until the session expires.
+ */
+
+type StorageState = Awaited<ReturnType<BrowserContext["storageState"]>>;
+
+/**
+ * Session file of `account`: a named account (see utils/accounts.ts) gets
+ * its own file under sessions/accounts/, otherwise the login email (or the
+ * institution) names the file.
+ */
+export function sessionFile(account: string, named = false): string {
+  const name = account.toLowerCase().replace(/[^a-z0-9@._-]/g, "_");
+  return named
+    ? statePath("sessions", "accounts", `${name}.json`)
+    : statePath("sessions", `${name}.json`);
+}
+
+/**
+ * Load the saved cookies of `account` into the page's context.
+ * Returns false if there is no usable saved session.
+ */
+export async function restoreSession(
+  page: Page,
+  account: string,
+  named = false
+): Promise<boolean> {
+  try {
+    const raw = await fs.readFile(sessionFile(account, named), "utf8");
+    const state = JSON.parse(raw) as Partial<StorageState>;
+    const now = Date.now() / 1000;
+    // Session cookies have expires = -1
+    const cookies = (state.cookies ?? []).filter(
+      c => c.expires === -1 || c.expires > now
+    );
+    if (cookies.length === 0) return false;
+    await page.context().addCookies(cookies);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function saveSession(
+  page: Page,
+  account: string,
+  named = false
+): Promise<void> {
+  const file = sessionFile(account, named);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await page.context().storageState({ path: file });
+  await fs.chmod(file, 0o600).catch(() => {});
+}
+
+export async function clearSession(
+  account: string,
+  named = false
+): Promise<boolean> {
+  try {
+    await fs.rm(sessionFile(account, named));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether ScholarVox still accepts the restored session: the reader of
+ * `docid` shows its iframe and the iframe is not the login wall. A cookie
+ * alone proves nothing, the server may have expired the session. Without a
+ * book to open, only the session cookie can be checked.
+ */
+async function sessionAccepted(
+  page: Page,
+  docid: string | undefined,
+  debug: boolean
+): Promise<boolean> {
+  if (!docid) {
+    const auth = await waitAndDetectAuth(page, { timeoutMs: 5000, debug });
+    return auth.authenticated;
+  }
+  if (!(await hasSessionCookie(page.context()))) return false;
+
+  const { timeouts } = getConfig();
+  await page
+    .goto(makeScholarvoxUrl(docid, 1), {
+      waitUntil: "domcontentloaded",
+      timeout: timeouts.navigation,
+    })
+    .catch(() => {});
+  if (await hasAuthWall(page)) return false;
+
+  const iframeUrl = await page
+    .waitForSelector("iframe", { timeout: timeouts.iframe })
+    .then(() => page.evaluate(() => document.querySelector("iframe")?.src))
+    .catch(() => null);
+  if (!iframeUrl) return false;
+
+  const iframePage = await page.context().newPage();
+  try {
+    await iframePage.goto(iframeUrl, {
+      waitUntil: "domcontentloaded",
+      timeout: timeouts.iframe,
+    });
+    return !(await hasAuthWall(iframePage));
+  } catch {
+    return false;
+  } finally {
+    await iframePage.close().catch(() => {});
+  }
+}
+
+/**
+ * Let the user sign in by hand in a visible browser window, then copy the
+ * resulting session cookies into `page`'s (headless) context.
+ * Returns false if no session was detected before the timeout.
+ */
+export async function loginInBrowserWindow(
+  page: Page,
+  opts: LoginOptions & { docid?: string } = {}
+): Promise<boolean> {
+  const { docid, ...loginOpts } = opts;
+
+  console.log(
+    "\nA browser window will open. Sign in with your institution account;"
+  );
+  console.log("it closes by itself once ScholarVox recognises the session.\n");
+
+  const state = await withBrowser({
+    headful: true,
+    run: async context => {
+      const loginPage = context.pages()[0] ?? (await context.newPage());
+      const auth = await performInteractiveLogin(loginPage, docid, loginOpts);
+      return auth.authenticated ? await context.storageState() : null;
+    },
+  });
+
+  if (!state) return false;
+  await page.context().addCookies(state.cookies);
+  return true;
+}
+
+/**
+ * Run the interactive login after a failed automatic one. Returns false
+ * (instead of throwing) when it times out or no window can be opened, e.g. on
+ * a machine without a display.
+ */
+async function escalate(interactive: () => Promise<boolean>): Promise<boolean> {
+  try {
+    return await interactive();
+  } catch (err: any) {
+    console.error(`Could not open a browser window: ${err.message}`);
+    return false;
+  }
+}
+
+export type EnsureAuthOptions = {
+  institution?: string; // login provider id (default: cesi)
+  interactiveFallback?: boolean; // open a visible browser when needed (default: true)
+  onInteractive?: () => void; // called right before the browser window opens
+  docid?: string; // visit this book's reader when checking a restored session
+  fresh?: boolean; // the current session was rejected: skip the saved one and log in again
+  account?: string | null; // named account: its session is stored apart from others
+  debug?: boolean;
+};
+
+/**
+ * Make sure `page` is logged in to ScholarVox: reuse the saved session of the
+ * account when it is still valid, otherwise log in again and save the new
+ * session. Institutions with a registered provider log in automatically with
+ * `creds`; any other institution (or missing credentials) uses an interactive
+ * login in a visible browser window. A failed automatic login (changed SSO
+ * page, MFA, consent screen) escalates to that interactive login too, and the
+ * resulting session is then used headless.
+ * Returns how the session was obtained.
+ */
+export async function ensureAuthenticated(
+  page: Page,
+  creds: Credentials | null,
+  opts: EnsureAuthOptions = {}
+): Promise<"restored" | "logged-in"> {
+  const {
+    institution = DEFAULT_INSTITUTION,
+    interactiveFallback = true,
+    docid,
+    fresh = false,
+    debug = false,
+    onInteractive,
+  } = opts;
+  const provider = getLoginProvider(institution);
+  const named = Boolean(opts.account);
+  const account = opts.account || (creds?.email ?? institution);
+
+  if (fresh) {
+    await page.context().clearCookies();
+    await clearSession(account, named);
+  } else if (await restoreSession(page, account, named)) {
+    if (await sessionAccepted(page, docid, debug)) return "restored";
+
+    // Expired: drop the stale cookies and file before logging in again
+    if (debug) console.log("Saved session was rejected by ScholarVox.");
+    await page.context().clearCookies();
+    await clearSession(account, named);
+  }
+
+  const interactive = () => {
+    onInteractive?.();
+    return loginInBrowserWindow(page, {
+      docid,
+      loginUrl: provider ? providerEntryUrl(provider) : undefined,
+      institutionSlug: institution,
+      debug,
+    });
+  };
+
+  if (provider && creds) {
+    try {
+      await loginWithProvider(
+        page,
+        provider,
+        creds.email,
+        creds.password,
+        debug
+      );
+    } catch (err: any) {
+      // Changed SSO page, MFA or consent screen: let the user finish by hand
+      if (!interactiveFallback) {
+        printLoginFailure(provider.name, err);
+        throw err;
+      }
+      console.log(`\nAutomatic login did not complete: ${err.message}`);
+      if (!(await escalate(interactive))) {
+        printLoginFailure(provider.name, err);
+        throw err;
+      }
+    }
+  } else {
+    if (!interactiveFallback) {
+      throw new VoxFetchError(
+        `No automatic login available for "${institution}" and interactive login is disabled.`
+      );
+    }
+    const ok = await interactive();
+    if (!ok) {
+      throw new VoxFetchError(
+        `Interactive login for "${institution}" timed out without a ScholarVox session.`
+      );
+    }
+  }
+
+  // The headless context must now see the session cookie by itself
+  const auth = await checkAuthNow(page, debug);
+  if (!auth.authenticated) {
+    throw new SessionExpiredError(
+      `Login did not produce a ScholarVox session: ${auth.note}`
+    );
+  }
+
+  await saveSession(page, account, named);
+  return "logged-in";
+}
@@ -1,4 +1,27 @@
-import { chromium, Browser, BrowserContext, LaunchOptions } from "playwright";
+import {
+  chromium,
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  LaunchOptions,
+} from "playwright";
+
+declare global {
+  interface Window {
+    __name?: <T>(fn: T) => T;
+  }
+}
+
+/**
+ * Shim for the SWC/TSX helper leaking into evaluate(): under tsx, named inner
+ * functions are wrapped in __name(...) calls that do not exist in the page.
+ * Installed on the context, so it covers every tab opened later.
+ */
+export async function addEvaluateShim(context: BrowserContext): Promise<void> {
+  await context.addInitScript(() => {
+    window.__name = fn => fn;
+  });
+}
 
 /**
  * Wrapper for browser lifecycle management
@@ -9,9 +32,10 @@ export async function withBrowser<T>(opts: {
   headful?: boolean;
   userDataDir?: string;
   launch?: LaunchOptions;
+  contextOptions?: BrowserContextOptions;
   run: (context: BrowserContext, browser: Browser | null) => Promise<T>;
 }): Promise<T> {
-  const { headful, userDataDir, launch, run } = opts;
+  const { headful, userDataDir, launch, contextOptions, run } = opts;
   const launchOptions: LaunchOptions = {
     headless: !headful,
     args: [
@@ -27,17 +51,18 @@ export async function withBrowser<T>(opts: {
   try {
     if (userDataDir) {
       // Persistent context: saves cookies/session for authentication
-      context = await chromium.launchPersistentContext(
-        userDataDir,
-        launchOptions
-      );
+      context = await chromium.launchPersistentContext(userDataDir, {
+        ...launchOptions,
+        ...contextOptions,
+      });
       browser = context.browser();
       if (context.pages().length === 0) await context.newPage();
     } else {
       // Regular browser: no session persistence
       browser = await chromium.launch(launchOptions);
-      context = await browser.newContext();
+      context = await browser.newContext(contextOptions);
     }
+    await addEvaluateShim(context);
     return await run(context, browser);
   } finally {
     try {
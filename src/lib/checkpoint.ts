@@ -0,0 +1,219 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { PDFDocument } from "pdf-lib";
+import { statePath } from "../utils/paths.js";
+import { RenderIncompleteError } from "../utils/errors.js";
+import type { RenderMode } from "../utils/config.js";
+import type { PageIssue } from "../helpers/pageCheck.js";
+import type { PdfStreamWriter } from "../utils/pdfStream.js";
+
+/**
+ * On-disk download checkpoints: every printed chunk of pages is written to
+ * .voxfetch-cesi/checkpoints/<docid>/ together with a manifest, so that an
+ * interrupted download can be resumed without re-rendering finished pages.
+ */
+
+const CHECKPOINT_ROOT = statePath("checkpoints");
+const MANIFEST_FILE = "manifest.json";
+
+export type CheckpointChunk = {
+  file: string; // relative to the checkpoint directory
+  pages: number[]; // book pages (1-indexed), in PDF page order
+  issues?: PageIssue[]; // pages printed although they did not render well
+};
+
+// How the pages were rendered: chunks made with other settings do not match
+export type CheckpointSettings = {
+  renderMode: RenderMode;
+  viewport: { width: number; height: number };
+  pages: number[] | null; // selected pages (null = whole book)
+};
+
+export type CheckpointManifest = {
+  docid: string;
+  totalPages: number;
+  settings: CheckpointSettings;
+  createdAt: string;
+  updatedAt: string;
+  chunks: CheckpointChunk[];
+};
+
+export type Checkpoint = {
+  dir: string;
+  manifest: CheckpointManifest;
+};
+
+export function checkpointDir(docid: string): string {
+  return path.join(CHECKPOINT_ROOT, docid);
+}
+
+async function writeManifest(checkpoint: Checkpoint): Promise<void> {
+  checkpoint.manifest.updatedAt = new Date().toISOString();
+  const file = path.join(checkpoint.dir, MANIFEST_FILE);
+  // Write then rename so a crash never leaves a truncated manifest behind
+  await fs.writeFile(
+    `${file}.tmp`,
+    JSON.stringify(checkpoint.manifest, null, 2)
+  );
+  await fs.rename(`${file}.tmp`, file);
+}
+
+function sameSettings(a: CheckpointSettings, b: CheckpointSettings): boolean {
+  return (
+    a.renderMode === b.renderMode &&
+    a.viewport.width === b.viewport.width &&
+    a.viewport.height === b.viewport.height &&
+    JSON.stringify(a.pages) === JSON.stringify(b.pages)
+  );
+}
+
+/**
+ * Open the checkpoint for a book, creating it if needed. An existing
+ * checkpoint is reused only if it was made for the same page count and
+ * settings; otherwise (or when `restart` is set) it is thrown away.
+ */
+export async function openCheckpoint(
+  docid: string,
+  totalPages: number,
+  settings: CheckpointSettings,
+  restart = false
+): Promise<Checkpoint> {
+  const dir = checkpointDir(docid);
+
+  if (restart) {
+    await discardCheckpoint(docid);
+  } else {
+    try {
+      const raw = await fs.readFile(path.join(dir, MANIFEST_FILE), "utf8");
+      const manifest = JSON.parse(raw) as CheckpointManifest;
+      if (manifest.docid === docid && manifest.totalPages === totalPages) {
+        if (manifest.settings && sameSettings(manifest.settings, settings)) {
+          return { dir, manifest };
+        }
+        console.log(
+          "Saved pages were rendered with other settings, starting over."
+        );
+      }
+      // Book or settings changed since the checkpoint was made: start over
+      await discardCheckpoint(docid);
+    } catch {
+      // No (readable) manifest yet
+    }
+  }
+
+  await fs.mkdir(dir, { recursive: true });
+  const now = new Date().toISOString();
+  const checkpoint: Checkpoint = {
+    dir,
+    manifest: {
+      docid,
+      totalPages,
+      settings,
+      createdAt: now,
+      updatedAt: now,
+      chunks: [],
+    },
+  };
+  await writeManifest(checkpoint);
+  return checkpoint;
+}
+
+/**
+ * Pages already stored in the checkpoint
+ */
+export function completedPages(checkpoint: Checkpoint): Set<number> {
+  const done = new Set<number>();
+  for (const chunk of checkpoint.manifest.chunks)
+    for (const p of chunk.pages) done.add(p);
+  return done;
+}
+
+/**
+ * Store a printed chunk and record its pages (and their issues, if any) in
+ * the manifest
+ */
+export async function saveChunk(
+  checkpoint: Checkpoint,
+  pages: number[],
+  pdf: Uint8Array,
+  issues: PageIssue[] = []
+): Promise<void> {
+  const file = `pages-${pages[0]}-${pages[pages.length - 1]}.pdf`;
+  await fs.writeFile(path.join(checkpoint.dir, file), pdf);
+
+  // A re-rendered chunk replaces any older chunk covering the same pages
+  const replaced = new Set(pages);
+  checkpoint.manifest.chunks = checkpoint.manifest.chunks.filter(
+    c => c.file !== file && !c.pages.every(p => replaced.has(p))
+  );
+  checkpoint.manifest.chunks.push(
+    issues.length > 0 ? { file, pages, issues } : { file, pages }
+  );
+
+  await writeManifest(checkpoint);
+}
+
+/**
+ * Issues recorded for `pages`, including those of chunks saved by an earlier
+ * run, in page order
+ */
+export function pageIssues(
+  checkpoint: Checkpoint,
+  pages: number[]
+): PageIssue[] {
+  const wanted = new Set(pages);
+  const issues = new Map<number, PageIssue>();
+  // Latest chunk wins, like in mergeCheckpoint
+  for (const chunk of checkpoint.manifest.chunks) {
+    for (const p of chunk.pages) issues.delete(p);
+    for (const issue of chunk.issues ?? []) issues.set(issue.page, issue);
+  }
+  return [...issues.values()]
+    .filter(i => wanted.has(i.page))
+    .sort((a, b) => a.page - b.page);
+}
+
+/**
+ * Append the stored chunks holding `pages` to `writer`, in order. Chunk
+ * files are read one at a time and their pages are written out before the
+ * next one is loaded, so memory use does not grow with the book.
+ */
+export async function mergeCheckpoint(
+  checkpoint: Checkpoint,
+  pages: number[],
+  writer: PdfStreamWriter
+): Promise<void> {
+  // Latest chunk wins if a page was stored more than once
+  const location = new Map<number, { chunk: CheckpointChunk; index: number }>();
+  for (const chunk of checkpoint.manifest.chunks)
+    chunk.pages.forEach((p, index) => location.set(p, { chunk, index }));
+
+  // Pages come in book order, so consecutive pages share a chunk
+  const runs: Array<{ chunk: CheckpointChunk; indices: number[] }> = [];
+  for (const p of pages) {
+    const loc = location.get(p);
+    if (!loc)
+      throw new RenderIncompleteError(
+        `Page ${p} is missing from the checkpoint.`
+      );
+    const last = runs[runs.length - 1];
+    if (last?.chunk.file === loc.chunk.file) last.indices.push(loc.index);
+    else runs.push({ chunk: loc.chunk, indices: [loc.index] });
+  }
+
+  for (const { chunk, indices } of runs) {
+    const bytes = await fs.readFile(path.join(checkpoint.dir, chunk.file));
+    const src = await PDFDocument.load(bytes);
+    const missing = indices.find(i => i >= src.getPageCount());
+    if (missing !== undefined) {
+      throw new RenderIncompleteError(
+        `Checkpoint file ${chunk.file} has no PDF page for book page ${chunk.pages[missing]}.`
+      );
+    }
+    await writer.appendPages(src, indices);
+  }
+}
+
+export async function discardCheckpoint(docid: string): Promise<void> {
+  await fs.rm(checkpointDir(docid), { recursive: true, force: true });
+}
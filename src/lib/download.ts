@@ -0,0 +1,420 @@
+import type { Page } from "playwright";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { Credentials } from "../utils/credentials.js";
+import { embedBookMetadata } from "../utils/pdfMetadata.js";
+import { addOutline } from "../utils/pdfOutline.js";
+import { PdfStreamWriter } from "../utils/pdfStream.js";
+import { planChapterSplit, writeChapterSplit } from "./split.js";
+import { readTableOfContents } from "../helpers/tableOfContents.js";
+import type { BookSession } from "./session.js";
+import { ensureAuthenticated, type EnsureAuthOptions } from "./authSession.js";
+import { SessionExpiredError } from "../utils/errors.js";
+import {
+  DEFAULT_INSTITUTION,
+  getLoginProvider,
+} from "../utils/loginProviders.js";
+import {
+  openReader,
+  scrollToPage,
+  sessionLost,
+  type OpenedReader,
+} from "./reader.js";
+import { renderPageByPage } from "./pageWorkers.js";
+import { verifyPages } from "./pageVerify.js";
+import { describeIssues, type PageIssue } from "../helpers/pageCheck.js";
+import {
+  largestPageArea,
+  removePrintClipping,
+  showAllPages,
+  showOnlyPages,
+  waitForFonts,
+} from "../utils/printToPdf.js";
+import {
+  completedPages,
+  discardCheckpoint,
+  mergeCheckpoint,
+  openCheckpoint,
+  pageIssues,
+  saveChunk,
+  type Checkpoint,
+} from "./checkpoint.js";
+import { resolvePageSpec, type PageSpan } from "../utils/pageRange.js";
+import { DEBUG, Spinner, log, progressBar } from "../utils/terminal.js";
+import { getConfig, type RenderMode } from "../utils/config.js";
+import { autoChunkSize, type PageArea } from "../utils/chunkSize.js";
+import { waitForReady } from "../utils/pageReady.js";
+
+export type DownloadOptions = {
+  pages?: PageSpan[]; // only download these pages (default: whole book)
+  restart?: boolean; // discard any checkpoint from a previous run
+  split?: "chapters"; // one PDF per chapter in a folder named like outputPath
+  splitDepth?: number; // TOC depth that starts a new chapter file (default 1)
+  institution?: string; // login provider id (default: cesi)
+  interactiveLogin?: boolean; // allow a visible browser login (default: true)
+  account?: string | null; // named account whose session is reused
+  // "chunked": chunks sized after the largest page image; "single": every
+  // page in one print; "page": each page at its own size (default: config)
+  renderMode?: RenderMode;
+  concurrency?: number; // worker tabs in "page" mode (default: config)
+};
+
+// Page size assumed when the reader gives none (most tested books)
+const DEFAULT_PAGE_AREA: PageArea = { width: 1080, height: 1332 };
+
+// Logins in a row allowed for one chunk before giving up on the session
+const MAX_RELOGINS = 2;
+
+/**
+ * Wait for fonts, lift clipping constraints and print whatever pages of
+ * #page-container are currently visible.
+ */
+async function printVisiblePages(iframePage: Page): Promise<Uint8Array> {
+  await waitForFonts(iframePage);
+  await removePrintClipping(iframePage);
+
+  const dims = await iframePage.evaluate(() => {
+    const images = document.querySelectorAll("img");
+    if (images.length > 0) {
+      let largest: Element | null = null;
+      let maxArea = 0;
+
+      images.forEach(img => {
+        const imgEl = img as HTMLImageElement;
+        const area = imgEl.naturalWidth * imgEl.naturalHeight;
+        if (area > maxArea) {
+          maxArea = area;
+          largest = imgEl;
+        }
+      });
+
+      if (largest) {
+        const imgEl = largest as HTMLImageElement;
+        if (imgEl.naturalWidth > 0 && imgEl.naturalHeight > 0) {
+          return { width: imgEl.naturalWidth, height: imgEl.naturalHeight };
+        }
+      }
+    }
+    return { width: 1080, height: 1332 };
+  });
+
+  const { referenceScale, referenceWidth } = getConfig().render;
+  const widthInches = dims.width / 96;
+  const heightInches = dims.height / 96;
+  const scale = referenceScale * (dims.width / referenceWidth);
+
+  if (DEBUG) {
+    log(`\nPage size: ${dims.width}x${dims.height}px`);
+    log(`PDF size: ${widthInches.toFixed(2)}" x ${heightInches.toFixed(2)}"`);
+    log(`Scale: ${scale.toFixed(3)}`);
+  }
+
+  return iframePage.pdf({
+    width: `${widthInches}in`,
+    height: `${heightInches}in`,
+    printBackground: true,
+    margin: { top: "0mm", right: "0mm", bottom: "0mm", left: "0mm" },
+    scale: scale,
+    preferCSSPageSize: false,
+  });
+}
+
+/**
+ * Open the reader of `docid`. When ScholarVox rejects the session (expired
+ * since it was checked), log in again without the saved session and retry,
+ * counting from `relogins` logins already spent; gives up with
+ * SessionExpiredError after MAX_RELOGINS.
+ */
+export async function openReaderWithRelogin(
+  page: Page,
+  docid: string,
+  creds: Credentials | null,
+  authOpts: EnsureAuthOptions,
+  relogins = 0
+): Promise<OpenedReader> {
+  for (; ; relogins++) {
+    try {
+      return await openReader(page, docid);
+    } catch (err) {
+      if (!(err instanceof SessionExpiredError)) throw err;
+      if (relogins >= MAX_RELOGINS) {
+        throw new SessionExpiredError(
+          "The ScholarVox session keeps expiring, even right after logging in."
+        );
+      }
+      log("\nScholarVox session rejected, logging in again...");
+      await ensureAuthenticated(page, creds, { ...authOpts, fresh: true });
+    }
+  }
+}
+
+/**
+ * Final report of the pages printed although they did not render well
+ */
+function reportIssues(issues: PageIssue[]): void {
+  if (issues.length === 0) return;
+  console.log(
+    `Warning: ${issues.length} page(s) may be blank or incomplete after rendering them again:`
+  );
+  for (const line of describeIssues(issues)) console.log(`  ${line}`);
+  const pages = issues.map(i => i.page).join(",");
+  console.log(
+    `Check them in the PDF, or download them again with -p ${pages}.\n`
+  );
+}
+
+/**
+ * Log in, open the reader iframe for the session's book, then lazy-load and
+ * print the selected pages chunk by chunk. Chunks are checkpointed on disk, so
+ * a rerun only renders the pages that are still missing before merging
+ * everything into `outputPath`. The browser belongs to `session` and is not
+ * closed here. Failures are thrown as typed errors (see utils/errors.ts) for
+ * the CLI to report. Returns the pages that still looked broken after being
+ * rendered again (also listed on the console).
+ */
+export async function downloadBook(
+  session: BookSession,
+  outputPath: string,
+  creds: Credentials | null,
+  opts: DownloadOptions = {}
+): Promise<PageIssue[]> {
+  const { docid, page } = session;
+  log(`\nBook ID: ${docid}`);
+  log(`Output: ${outputPath}\n`);
+
+  const metadata = await session.metadata();
+  let checkpoint: Checkpoint | null = null;
+
+  try {
+    const institution = opts.institution ?? DEFAULT_INSTITUTION;
+    const provider = getLoginProvider(institution);
+    // No spinner when the login may happen by hand in a browser window
+    const loginSpinner = new Spinner();
+    if (provider && creds) {
+      loginSpinner.start(`Logging in to ${provider.name}...`);
+      log(`Email: ${creds.email}`);
+    }
+    const authOpts: EnsureAuthOptions = {
+      institution,
+      interactiveFallback: opts.interactiveLogin,
+      account: opts.account,
+      docid,
+      debug: DEBUG,
+    };
+    const how = await ensureAuthenticated(page, creds, {
+      ...authOpts,
+      onInteractive: () => loginSpinner.stop(),
+    });
+    loginSpinner.stop(
+      how === "restored" ? "Reusing saved session." : "Login successful!"
+    );
+
+    const loader = new Spinner();
+    loader.start("Loading book reader...");
+    let reader: OpenedReader;
+    try {
+      reader = await openReaderWithRelogin(page, docid, creds, authOpts);
+    } finally {
+      loader.stop();
+    }
+    const { totalPages } = reader;
+    console.log("Book reader loaded successfully.");
+
+    // The session can expire during a long book: log in again and reload
+    // the reader, without going through the saved session
+    const relogin = async (relogins: number) => {
+      if (relogins >= MAX_RELOGINS) {
+        throw new SessionExpiredError(
+          "The ScholarVox session keeps expiring during the download."
+        );
+      }
+      log("\nScholarVox session expired, logging in again...");
+      await reader.iframePage.close().catch(() => {});
+      await ensureAuthenticated(page, creds, { ...authOpts, fresh: true });
+      reader = await openReaderWithRelogin(
+        page,
+        docid,
+        creds,
+        authOpts,
+        relogins + 1
+      );
+    };
+
+    const toc = await readTableOfContents(reader.iframePage).catch(() => []);
+    log(`Table of contents: ${toc.length} top-level entries`);
+
+    console.log(`\nBook contains ${totalPages} pages.`);
+
+    const selectedPages = opts.pages
+      ? resolvePageSpec(opts.pages, totalPages)
+      : null;
+    const pagesToLoad =
+      selectedPages ?? Array.from({ length: totalPages }, (_, i) => i + 1);
+
+    const { render, viewport } = getConfig();
+    const mode = opts.renderMode ?? render.mode;
+    checkpoint = await openCheckpoint(
+      docid,
+      totalPages,
+      { renderMode: mode, viewport, pages: selectedPages },
+      opts.restart
+    );
+    const done = completedPages(checkpoint);
+    const pending = pagesToLoad.filter(p => !done.has(p));
+
+    if (pending.length < pagesToLoad.length) {
+      console.log(
+        `Resuming: ${pagesToLoad.length - pending.length} pages already downloaded.`
+      );
+    }
+    if (selectedPages) {
+      console.log(`Downloading ${selectedPages.length} selected pages...`);
+    } else {
+      console.log("Downloading all pages...");
+    }
+
+    // Print in chunks so that finished pages survive an interruption and
+    // Chromium never lays out the whole book at once ("single" mode prints
+    // everything in one go)
+    const largest = await largestPageArea(reader.iframePage);
+    const chunkSize =
+      mode === "single"
+        ? Math.max(pending.length, 1)
+        : autoChunkSize(pending.length, largest ?? DEFAULT_PAGE_AREA, {
+            maxPages: render.chunkSize,
+            maxMegapixels: render.chunkMegapixels,
+          });
+    if (largest) log(`Largest page: ${largest.width}x${largest.height}px`);
+    log(`Chunk size: ${chunkSize} pages`);
+    const concurrency = opts.concurrency ?? render.concurrency;
+    if (concurrency > 1 && mode !== "page") {
+      console.log(
+        `Note: --concurrency only applies to the "page" render mode, rendering in one tab.`
+      );
+    }
+    if (mode === "page") {
+      await renderPageByPage({
+        reader: () => reader,
+        relogin,
+        checkpoint,
+        pages: pending,
+        chunkSize,
+        concurrency,
+      });
+    } else {
+      for (let i = 0; i < pending.length; i += chunkSize) {
+        const chunk = pending.slice(i, i + chunkSize);
+
+        for (let relogins = 0; ; relogins++) {
+          const { iframePage } = reader;
+          await showAllPages(iframePage);
+
+          // scroll through pages to trigger lazy loading
+          for (const [j, pageNumber] of chunk.entries()) {
+            const bar = progressBar(i + j + 1, pending.length);
+            process.stdout.write(`\r${bar}`);
+            // Clear any remaining characters from previous line
+            process.stdout.clearLine?.(1);
+
+            await scrollToPage(iframePage, pageNumber);
+            await waitForReady(iframePage, pageNumber);
+          }
+
+          // Pages loaded without a session are paywall pages: render again
+          if (await sessionLost(iframePage)) {
+            await relogin(relogins);
+            continue;
+          }
+
+          // Pages that did not render get more time before printing
+          const issues = await verifyPages(iframePage, chunk);
+          if (issues.some(i => i.problems.includes("paywall"))) {
+            await relogin(relogins);
+            continue;
+          }
+
+          // Only the chunk's pages stay visible for printing
+          await showOnlyPages(iframePage, chunk);
+          const pdfBuffer = await printVisiblePages(iframePage);
+          await saveChunk(checkpoint, chunk, pdfBuffer, issues);
+          log(`\nSaved pages ${chunk[0]}-${chunk[chunk.length - 1]}`);
+          break;
+        }
+      }
+    }
+
+    console.log("\n");
+
+    const spinner = new Spinner();
+    spinner.start(`Assembling PDF (${pagesToLoad.length} pages)...`);
+    const issues = pageIssues(checkpoint, pagesToLoad);
+
+    const parts = opts.split
+      ? planChapterSplit(toc, pagesToLoad, opts.splitDepth)
+      : [];
+    if (opts.split && parts.length === 0) {
+      spinner.stop();
+      console.log(
+        "Warning: no table of contents found, writing a single PDF instead."
+      );
+    }
+
+    if (parts.length > 0) {
+      const outputDir = outputPath.replace(/\.pdf$/i, "");
+      const written = await writeChapterSplit(
+        checkpoint,
+        parts,
+        outputDir,
+        toc,
+        metadata
+      );
+      spinner.stop();
+      await discardCheckpoint(docid);
+      checkpoint = null;
+
+      console.log("\nDownload complete!");
+      console.log(`  Pages: ${pagesToLoad.length}`);
+      console.log(`  Chapters: ${written.length}`);
+      console.log(`  Location: ${outputDir}${path.sep}\n`);
+      reportIssues(issues);
+      return issues;
+    }
+
+    // Chunks are appended to the output file one at a time
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    const pdf = await PdfStreamWriter.open(outputPath);
+    let bookmarks: number;
+    try {
+      await mergeCheckpoint(checkpoint, pagesToLoad, pdf);
+      if (metadata) embedBookMetadata(pdf.doc, metadata);
+      const pdfIndex = new Map(pagesToLoad.map((p, i) => [p, i]));
+      bookmarks = addOutline(pdf.doc, toc, p => pdfIndex.get(p) ?? null);
+      await pdf.close();
+    } catch (err) {
+      await pdf.discard();
+      throw err;
+    }
+    spinner.stop();
+    if (DEBUG) log("PDF generated");
+
+    await discardCheckpoint(docid);
+    checkpoint = null;
+
+    const stats = await fs.stat(outputPath);
+
+    console.log("\nDownload complete!");
+    console.log(`  Pages: ${pagesToLoad.length}`);
+    if (bookmarks > 0) console.log(`  Bookmarks: ${bookmarks}`);
+    console.log(`  Size: ${(stats.size / 1024 / 1024).toFixed(2)} MB`);
+    console.log(`  Location: ${outputPath}\n`);
+    reportIssues(issues);
+    return issues;
+  } catch (err: any) {
+    if (checkpoint && checkpoint.manifest.chunks.length > 0) {
+      console.error(
+        "Finished pages were kept. Run the same download again to resume, or add --restart to start over."
+      );
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,65 @@
+import type { Page } from "playwright";
+import { scrollToPage } from "./reader.js";
+import { inspectPages, type PageIssue } from "../helpers/pageCheck.js";
+import { waitForFonts } from "../utils/printToPdf.js";
+import { getConfig } from "../utils/config.js";
+import { waitForReady } from "../utils/pageReady.js";
+import { log } from "../utils/terminal.js";
+
+// Extra rounds given to pages that did not render on the first pass
+const RERENDER_ATTEMPTS = 2;
+// Quiet time asked of a page being rendered again (ms), doubled on the next
+// round
+const RERENDER_SETTLE = 1000;
+
+async function reloadBrokenImages(iframePage: Page, pageNumber: number) {
+  await iframePage.evaluate(pageIdx => {
+    const container = document.getElementById("page-container");
+    const el = container?.children[pageIdx];
+    el?.querySelectorAll("img").forEach(img => {
+      if (img.complete && img.naturalWidth === 0) img.src = img.src;
+    });
+  }, pageNumber - 1);
+}
+
+/**
+ * Check lazy-loaded pages before they are printed, and give the bad ones
+ * more time: each is scrolled to again, its failed images are reloaded and
+ * the quiet time it must reach grows with every round. Returns the pages
+ * still broken after the last round; the caller decides whether to print
+ * them anyway.
+ */
+export async function verifyPages(
+  iframePage: Page,
+  pages: number[]
+): Promise<PageIssue[]> {
+  await waitForFonts(iframePage);
+  let issues = await inspectPages(iframePage, pages);
+
+  const { timeouts } = getConfig();
+  for (let round = 1; round <= RERENDER_ATTEMPTS; round++) {
+    // A login wall does not go away by waiting
+    const retry = issues.filter(i => !i.problems.includes("paywall"));
+    if (retry.length === 0) break;
+
+    log(`\nRendering again: pages ${retry.map(i => i.page).join(", ")}`);
+    const settle = RERENDER_SETTLE * round;
+    for (const { page } of retry) {
+      await scrollToPage(iframePage, page);
+      await reloadBrokenImages(iframePage, page);
+      await waitForReady(iframePage, page, {
+        settle,
+        timeout: timeouts.pageReady * (round + 1),
+      });
+    }
+    await waitForFonts(iframePage);
+
+    const still = await inspectPages(
+      iframePage,
+      retry.map(i => i.page)
+    );
+    issues = [...issues.filter(i => i.problems.includes("paywall")), ...still];
+  }
+
+  return issues.sort((a, b) => a.page - b.page);
+}
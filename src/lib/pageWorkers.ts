@@ -0,0 +1,146 @@
+/**
+ * Page render mode: every page is rendered on its own, at its own size, by a
+ * pool of worker tabs that all show the reader iframe in the same
+ * authenticated context. Finished pages are assembled in book order with
+ * pdf-lib and checkpointed chunk by chunk.
+ */
+
+import type { Page } from "playwright";
+import { PDFDocument } from "pdf-lib";
+import {
+  loadIframePage,
+  scrollToPage,
+  sessionLost,
+  type OpenedReader,
+} from "./reader.js";
+import { saveChunk, type Checkpoint } from "./checkpoint.js";
+import { verifyPages } from "./pageVerify.js";
+import type { PageIssue } from "../helpers/pageCheck.js";
+import { printIsolatedPage, showAllPages } from "../utils/printToPdf.js";
+import { runPool } from "../utils/workerPool.js";
+import { RenderIncompleteError } from "../utils/errors.js";
+import { waitForReady } from "../utils/pageReady.js";
+import { DEBUG, log, progressBar, throughput } from "../utils/terminal.js";
+
+export type PageRenderJob = {
+  reader: () => OpenedReader; // current reader; replaced by a re-login
+  relogin: (relogins: number) => Promise<void>; // throws once out of tries
+  checkpoint: Checkpoint;
+  pages: number[]; // book pages still to render, in order
+  chunkSize: number; // pages per checkpointed chunk
+  concurrency: number; // worker tabs
+};
+
+// Thrown by a worker whose tab lost the session; stops the whole pool
+class SessionLost extends Error {}
+
+type RenderedPage = {
+  pdf: Uint8Array;
+  issue: PageIssue | null; // still broken after rendering it again
+};
+
+async function renderPage(
+  tab: Page,
+  pageNumber: number
+): Promise<RenderedPage> {
+  // Another page may still be isolated from the previous print
+  await showAllPages(tab);
+  await scrollToPage(tab, pageNumber);
+  await waitForReady(tab, pageNumber);
+  if (await sessionLost(tab)) throw new SessionLost();
+
+  const [issue = null] = await verifyPages(tab, [pageNumber]);
+  if (issue?.problems.includes("paywall")) throw new SessionLost();
+  return { pdf: await printIsolatedPage(tab, pageNumber), issue };
+}
+
+/**
+ * One PDF holding the given single-page PDFs, in order
+ */
+async function assemble(pdfs: Uint8Array[]): Promise<Uint8Array> {
+  const out = await PDFDocument.create();
+  for (const bytes of pdfs) {
+    const [copied] = await out.copyPages(await PDFDocument.load(bytes), [0]);
+    out.addPage(copied);
+    if (DEBUG) {
+      const { width, height } = copied.getSize();
+      log(`\nPage size: ${width.toFixed(0)}x${height.toFixed(0)}pt`);
+    }
+  }
+  return out.save();
+}
+
+/**
+ * The reader's own iframe tab plus `concurrency - 1` more
+ */
+async function openWorkers(
+  reader: OpenedReader,
+  concurrency: number
+): Promise<Page[]> {
+  const extra = await Promise.all(
+    Array.from({ length: concurrency - 1 }, () =>
+      loadIframePage(reader.iframePage, reader.iframeUrl)
+    )
+  );
+  return [reader.iframePage, ...extra];
+}
+
+export async function renderPageByPage(job: PageRenderJob): Promise<void> {
+  const { checkpoint, pages, chunkSize, concurrency } = job;
+  const startedAt = Date.now();
+  let done = 0;
+
+  let workers = await openWorkers(job.reader(), concurrency);
+  const closeExtraWorkers = () =>
+    Promise.all(workers.slice(1).map(tab => tab.close().catch(() => {})));
+  log(`Rendering with ${workers.length} worker tab(s)`);
+
+  try {
+    for (let i = 0; i < pages.length; i += chunkSize) {
+      const chunk = pages.slice(i, i + chunkSize);
+      const rendered = new Map<number, RenderedPage>();
+
+      for (let relogins = 0; ; relogins++) {
+        try {
+          await runPool(
+            workers,
+            chunk.filter(p => !rendered.has(p)),
+            (tab, p) =>
+              renderPage(tab, p).catch(err => {
+                if (err instanceof SessionLost) throw err;
+                throw new RenderIncompleteError(
+                  `Page ${p} could not be rendered: ${err.message}`
+                );
+              }),
+            {
+              retryable: err => !(err instanceof SessionLost),
+              onResult: (p, result) => {
+                rendered.set(p, result);
+                done++;
+                const bar = progressBar(done, pages.length);
+                const rate = throughput(done, pages.length, startedAt);
+                process.stdout.write(`\r${bar} ${rate}`);
+                process.stdout.clearLine?.(1);
+              },
+            }
+          );
+          break;
+        } catch (err) {
+          if (!(err instanceof SessionLost)) throw err;
+          // Pages rendered before the loss are kept; the others start over
+          await closeExtraWorkers();
+          await job.relogin(relogins);
+          workers = await openWorkers(job.reader(), concurrency);
+        }
+      }
+
+      const results = chunk.map(p => rendered.get(p)!);
+      const pdf = await assemble(results.map(r => r.pdf));
+      const issues = results.flatMap(r => (r.issue ? [r.issue] : []));
+      await saveChunk(checkpoint, chunk, pdf, issues);
+      log(`\nSaved pages ${chunk[0]}-${chunk[chunk.length - 1]}`);
+    }
+  } finally {
+    await closeExtraWorkers();
+  }
+}
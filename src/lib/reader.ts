@@ -0,0 +1,128 @@
+import type { Page } from "playwright";
+import { log } from "../utils/terminal.js";
+import { hasAuthWall, hasSessionCookie } from "../helpers/authDetection.js";
+import { makeScholarvoxUrl } from "../helpers/scholarVox.js";
+import { getConfig } from "../utils/config.js";
+import { trackNetwork, waitForReady } from "../utils/pageReady.js";
+import { RenderIncompleteError, SessionExpiredError } from "../utils/errors.js";
+
+export type OpenedReader = {
+  iframeUrl: string;
+  iframePage: Page; // the reader iframe loaded as a top-level page
+  totalPages: number;
+};
+
+async function countPages(iframePage: Page): Promise<number> {
+  return iframePage.evaluate(() => {
+    const container = document.getElementById("page-container");
+    return container ? container.children.length : 0;
+  });
+}
+
+/**
+ * Scroll #page-container to a page (1-indexed) so that it lazy-loads
+ */
+export async function scrollToPage(iframePage: Page, pageNumber: number) {
+  await iframePage.evaluate(pageIdx => {
+    const container = document.getElementById("page-container");
+    if (!container) return;
+    const el = container.children[pageIdx] as HTMLElement;
+    if (el) el.scrollIntoView({ behavior: "auto", block: "start" });
+  }, pageNumber - 1);
+}
+
+/**
+ * Whether the reader lost its ScholarVox session: the SFSESSID cookie is gone
+ * or the iframe shows the "veuillez vous authentifier" paywall instead of
+ * the pages.
+ */
+export async function sessionLost(iframePage: Page): Promise<boolean> {
+  return (
+    !(await hasSessionCookie(iframePage.context())) ||
+    (await hasAuthWall(iframePage))
+  );
+}
+
+/**
+ * Open the reader iframe (`iframeUrl`) as a top-level page in a new tab of
+ * `page`'s context, sharing its session. Each render worker has one.
+ */
+export async function loadIframePage(
+  page: Page,
+  iframeUrl: string
+): Promise<Page> {
+  const { viewport, timeouts } = getConfig();
+  const iframePage = await page.context().newPage();
+  trackNetwork(iframePage);
+  await iframePage.setViewportSize(viewport);
+
+  await iframePage.goto(iframeUrl, {
+    waitUntil: "networkidle",
+    timeout: timeouts.iframe,
+  });
+
+  await waitForReady(iframePage, null);
+  return iframePage;
+}
+
+/**
+ * Open the ScholarVox reader for `docid` in an authenticated `page`, then load
+ * its iframe (the pdf2htmlEX document holding #page-container) in a new tab of
+ * the same context. Retries once if the book shows up with 0 pages.
+ */
+export async function openReader(
+  page: Page,
+  docid: string
+): Promise<OpenedReader> {
+  log("\nOpening book...");
+  trackNetwork(page);
+  await page.goto(makeScholarvoxUrl(docid, 1), {
+    waitUntil: "domcontentloaded",
+    timeout: getConfig().timeouts.navigation,
+  });
+
+  await waitForReady(page, null);
+
+  const iframeUrl = await page.evaluate(() => {
+    const iframe = document.querySelector("iframe");
+    return iframe?.src || null;
+  });
+
+  if (!iframeUrl) {
+    // Sent to a login page, or shown the paywall instead of the reader
+    if (/saml|login|auth/i.test(new URL(page.url()).pathname)) {
+      throw new SessionExpiredError(
+        `ScholarVox redirected to ${page.url()} instead of the reader.`
+      );
+    }
+    if (await hasAuthWall(page)) throw new SessionExpiredError();
+    throw new RenderIncompleteError("No iframe found in the book reader.");
+  }
+
+  log("Loading content...");
+  const { viewport } = getConfig();
+  log(`Viewport: ${viewport.width}x${viewport.height}`);
+
+  let iframePage = await loadIframePage(page, iframeUrl);
+  let totalPages = await countPages(iframePage);
+
+  // Verify that we got pages - if 0, try reloading
+  if (totalPages === 0) {
+    log("Book appears to have 0 pages. Retrying...");
+
+    await iframePage.close();
+    iframePage = await loadIframePage(page, iframeUrl);
+    totalPages = await countPages(iframePage);
+
+    if (totalPages === 0) {
+      if (await hasAuthWall(iframePage)) throw new SessionExpiredError();
+      throw new RenderIncompleteError(
+        "Book still has 0 pages after retry. The book might be unavailable or there's an access issue."
+      );
+    }
+
+    log("Retry successful!");
+  }
+
+  return { iframeUrl, iframePage, totalPages };
+}
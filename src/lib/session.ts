@@ -0,0 +1,71 @@
+import type { BrowserContext, Page } from "playwright";
+import { readBookStatus, type BookStatus } from "../helpers/bookCheck.js";
+import { readBookMetadata, type BookMetadata } from "../helpers/bookMeta.js";
+import { makeCatalogUrl } from "../helpers/scholarVox.js";
+import { withBrowser } from "./browser.js";
+
+type CatalogState = {
+  status: BookStatus;
+  metadata: BookMetadata | null; // only read when the book was found
+};
+
+/**
+ * One browser context for everything we do with a book: the catalog page is
+ * loaded once and both the availability status and the metadata are derived
+ * from that single load; login, reader and printing reuse the same context.
+ */
+export class BookSession {
+  private catalog: Promise<CatalogState> | null = null;
+
+  constructor(
+    readonly context: BrowserContext,
+    readonly page: Page,
+    readonly docid: string
+  ) {}
+
+  private loadCatalog(): Promise<CatalogState> {
+    if (!this.catalog) {
+      this.catalog = (async () => {
+        const resp = await this.page
+          .goto(makeCatalogUrl(this.docid), {
+            waitUntil: "domcontentloaded",
+            timeout: 15000,
+          })
+          .catch(() => null);
+
+        const status = await readBookStatus(this.page, resp);
+        const metadata =
+          status === "FOUND"
+            ? await readBookMetadata(this.page, this.docid).catch(() => null)
+            : null;
+        return { status, metadata };
+      })();
+    }
+    return this.catalog;
+  }
+
+  async status(): Promise<BookStatus> {
+    return (await this.loadCatalog()).status;
+  }
+
+  async metadata(): Promise<BookMetadata | null> {
+    return (await this.loadCatalog()).metadata;
+  }
+}
+
+/**
+ * Launch a single browser for `docid`, run `run` with its session, and
+ * always clean up the browser afterwards.
+ */
+export async function withBookSession<T>(
+  docid: string,
+  run: (session: BookSession) => Promise<T>
+): Promise<T> {
+  return withBrowser({
+    contextOptions: { viewport: { width: 1280, height: 800 } },
+    run: async context => {
+      const page = context.pages()[0] ?? (await context.newPage());
+      return run(new BookSession(context, page, docid));
+    },
+  });
+}
@@ -0,0 +1,109 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { BookMetadata } from "../helpers/bookMeta.js";
+import { sanitizeFilename } from "../helpers/bookMeta.js";
+import type { TocEntry } from "../helpers/tableOfContents.js";
+import { embedBookMetadata } from "../utils/pdfMetadata.js";
+import { addOutline } from "../utils/pdfOutline.js";
+import { PdfStreamWriter } from "../utils/pdfStream.js";
+import { mergeCheckpoint, type Checkpoint } from "./checkpoint.js";
+
+export type ChapterPart = {
+  title: string;
+  pages: number[]; // book pages (1-indexed) included in this part
+};
+
+export type WrittenPart = ChapterPart & { file: string };
+
+/**
+ * Cut the downloaded pages into chapters. Every TOC entry down to `depth`
+ * starts a new part that runs until the next one; pages before the first
+ * chapter become a "Front matter" part. Empty parts are dropped.
+ */
+export function planChapterSplit(
+  toc: TocEntry[],
+  pages: number[],
+  depth = 1
+): ChapterPart[] {
+  const starts: Array<{ title: string; page: number }> = [];
+  const collect = (entries: TocEntry[], level: number) => {
+    for (const entry of entries) {
+      if (entry.page !== null)
+        starts.push({ title: entry.title, page: entry.page });
+      if (level < depth) collect(entry.children, level + 1);
+    }
+  };
+  collect(toc, 1);
+  starts.sort((a, b) => a.page - b.page);
+
+  const parts: ChapterPart[] = [];
+  if (starts.length === 0 || pages.length === 0) return parts;
+
+  const front = pages.filter(p => p < starts[0].page);
+  if (front.length > 0) parts.push({ title: "Front matter", pages: front });
+
+  starts.forEach((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].page : Infinity;
+    const inPart = pages.filter(p => p >= start.page && p < end);
+    if (inPart.length > 0) parts.push({ title: start.title, pages: inPart });
+  });
+
+  return parts;
+}
+
+/**
+ * Write one PDF per part into `dir`, plus an index.md listing them. The
+ * pages of each part are taken from the checkpoint.
+ */
+export async function writeChapterSplit(
+  checkpoint: Checkpoint,
+  parts: ChapterPart[],
+  dir: string,
+  toc: TocEntry[],
+  metadata?: BookMetadata | null
+): Promise<WrittenPart[]> {
+  await fs.mkdir(dir, { recursive: true });
+
+  const width = Math.max(2, String(parts.length).length);
+  const written: WrittenPart[] = [];
+
+  for (const [i, part] of parts.entries()) {
+    const number = String(i + 1).padStart(width, "0");
+    const name = sanitizeFilename(part.title, 80) || "part";
+    const file = `${number}-${name}.pdf`;
+
+    const out = await PdfStreamWriter.open(path.join(dir, file));
+    try {
+      await mergeCheckpoint(checkpoint, part.pages, out);
+      const partIndex = new Map(part.pages.map((p, j) => [p, j]));
+      addOutline(out.doc, toc, p => partIndex.get(p) ?? null);
+      if (metadata) {
+        embedBookMetadata(out.doc, {
+          ...metadata,
+          subtitle: part.title,
+        });
+      }
+      await out.close();
+    } catch (err) {
+      await out.discard();
+      throw err;
+    }
+    written.push({ ...part, file });
+  }
+
+  const title = metadata?.title ?? path.basename(dir);
+  const lines = [
+    `# ${title}`,
+    "",
+    ...written.map(part => {
+      const first = part.pages[0];
+      const last = part.pages[part.pages.length - 1];
+      const range = first === last ? `p. ${first}` : `pp. ${first}-${last}`;
+      return `- [${part.title}](${encodeURI(part.file)}) (${range})`;
+    }),
+    "",
+  ];
+  await fs.writeFile(path.join(dir, "index.md"), lines.join("\n"));
+
+  return written;
+}
@@ -0,0 +1,109 @@
+/**
+ * Named accounts: several people (or one person's student and staff logins)
+ * can save credentials side by side. The registry of names lives in
+ * .voxfetch-cesi/accounts.json; the credentials themselves go to a separate
+ * keyring entry (or encrypted file) per account.
+ */
+
+import fs from "node:fs/promises";
+import { statePath } from "./paths.js";
+import { VoxFetchError } from "./errors.js";
+
+export type AccountProfile = {
+  email: string;
+  addedAt: string; // ISO date
+};
+
+export type AccountRegistry = {
+  default: string | null;
+  accounts: Record<string, AccountProfile>;
+};
+
+const ACCOUNT_NAME = /^[a-z0-9][a-z0-9._-]{0,39}$/;
+
+function registryFile(): string {
+  return statePath("accounts.json");
+}
+
+/**
+ * Throws unless `name` is a valid account name (lowercase letters, digits,
+ * ".", "_" and "-"; it is used in keyring entries and file names)
+ */
+export function assertAccountName(name: string): void {
+  if (!ACCOUNT_NAME.test(name)) {
+    throw new Error(
+      `Invalid account name "${name}". Use lowercase letters, digits, ".", "_" or "-".`
+    );
+  }
+}
+
+export async function readAccounts(): Promise<AccountRegistry> {
+  try {
+    const raw = await fs.readFile(registryFile(), "utf8");
+    const parsed = JSON.parse(raw) as Partial<AccountRegistry>;
+    return {
+      default: parsed.default ?? null,
+      accounts: parsed.accounts ?? {},
+    };
+  } catch {
+    return { default: null, accounts: {} };
+  }
+}
+
+async function writeAccounts(registry: AccountRegistry): Promise<void> {
+  await fs.mkdir(statePath(), { recursive: true });
+  const tmp = `${registryFile()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(registry, null, 2));
+  await fs.rename(tmp, registryFile());
+}
+
+/**
+ * Register (or update) an account. The first account becomes the default.
+ */
+export async function addAccount(name: string, email: string): Promise<void> {
+  assertAccountName(name);
+  const registry = await readAccounts();
+  registry.accounts[name] = {
+    email,
+    addedAt: registry.accounts[name]?.addedAt ?? new Date().toISOString(),
+  };
+  registry.default ??= name;
+  await writeAccounts(registry);
+}
+
+/**
+ * Unregister an account. The default is cleared if it was this account.
+ */
+export async function removeAccount(name: string): Promise<void> {
+  const registry = await readAccounts();
+  if (!registry.accounts[name]) throw unknownAccount(name);
+  delete registry.accounts[name];
+  if (registry.default === name) registry.default = null;
+  await writeAccounts(registry);
+}
+
+export async function setDefaultAccount(name: string): Promise<void> {
+  const registry = await readAccounts();
+  if (!registry.accounts[name]) throw unknownAccount(name);
+  registry.default = name;
+  await writeAccounts(registry);
+}
+
+function unknownAccount(name: string): VoxFetchError {
+  return new VoxFetchError(
+    `Unknown account "${name}". Run \`voxfetch accounts list\` to see the saved accounts.`
+  );
+}
+
+/**
+ * The account to use: `--account` if given (it must exist), otherwise the
+ * default account, otherwise null for the single unnamed credential slot.
+ */
+export async function resolveAccount(name?: string): Promise<string | null> {
+  const registry = await readAccounts();
+  if (name) {
+    if (!registry.accounts[name]) throw unknownAccount(name);
+    return name;
+  }
+  return registry.default;
+}
@@ -1,22 +1,37 @@
 /**
- * Automatic CESI login for ScholarVox
+ * Automatic institution login for ScholarVox
  */
 
-import type { Page } from "playwright";
+import type { Locator, Page } from "playwright";
+import {
+  getLoginProvider,
+  providerEntryUrl,
+  providerSuccessUrl,
+  type LoginProvider,
+} from "./loginProviders.js";
+import {
+  InvalidCredentialsError,
+  NetworkTimeoutError,
+  SecondFactorRequiredError,
+  SsoPageChangedError,
+  toVoxFetchError,
+} from "./errors.js";
+import { getConfig } from "./config.js";
 
-export async function loginCESI(
+export async function loginWithProvider(
   page: Page,
+  provider: LoginProvider,
   email: string,
   password: string,
   debug: boolean = false
 ): Promise<void> {
-  // Navigate to CESI login page
-  await page.goto("https://univ.scholarvox.com/saml-sp/viacesi", {
+  // Navigate to the institution's login page
+  await page.goto(providerEntryUrl(provider), {
     waitUntil: "domcontentloaded",
-    timeout: 45000,
+    timeout: getConfig().timeouts.login,
   });
 
-  // Wait for redirect to CESI login page
+  // Wait for redirect to the institution's login page
   await page.waitForTimeout(3000);
 
   try {
@@ -25,19 +40,15 @@ export async function loginCESI(
     }
 
     // Fill in email - try multiple selectors
-    const emailInput = page
-      .locator(
-        'input[type="email"], input[name="email"], input[name="login"], input[name="username"], input[id*="email"], input[id*="user"], input[placeholder*="mail"], input[placeholder*="user"]'
-      )
-      .first();
-    await emailInput.waitFor({ state: "visible", timeout: 10000 });
+    const emailInput = page.locator(provider.selectors.email).first();
+    await expectField(page, emailInput, "email field", 10000);
     await emailInput.click();
     await emailInput.fill(email);
     await page.waitForTimeout(500);
 
     // Fill in password
-    const passwordInput = page.locator('input[type="password"]').first();
-    await passwordInput.waitFor({ state: "visible", timeout: 5000 });
+    const passwordInput = page.locator(provider.selectors.password).first();
+    await expectField(page, passwordInput, "password field", 5000);
     await passwordInput.click();
     await passwordInput.fill(password);
     await page.waitForTimeout(500);
@@ -48,37 +59,178 @@ export async function loginCESI(
       console.log("Looking for submit button...");
     }
 
-    const submitButton = page
-      .locator('button[type="submit"], input[type="submit"]')
-      .first();
+    const submitButton = page.locator(provider.selectors.submit).first();
     const hasButton = (await submitButton.count()) > 0;
 
     if (hasButton) {
       if (debug) {
         console.log("Found submit button, clicking...");
       }
-      await Promise.all([
-        page.waitForURL(/scholarvox\.com/, { timeout: 30000 }),
-        submitButton.click(),
-      ]);
+      await submitButton.click();
     } else {
       // Fallback: press Enter on password field
       if (debug) {
         console.log("No button found, pressing Enter...");
       }
-      await Promise.all([
-        page.waitForURL(/scholarvox\.com/, { timeout: 30000 }),
-        passwordInput.press("Enter"),
-      ]);
+      await passwordInput.press("Enter");
+    }
+
+    // Either we are sent back to ScholarVox, or the IdP wants more from us
+    const outcome = await waitForLoginOutcome(page, provider, 30000);
+    if (outcome === "rejected") {
+      const banner = await readErrorBanner(page, provider);
+      throw new InvalidCredentialsError(
+        banner
+          ? `The identity provider rejected the login: ${banner}`
+          : undefined
+      );
+    }
+    if (outcome === "second-factor") {
+      throw new SecondFactorRequiredError();
     }
 
     // Additional wait to ensure session is established
     await page.waitForTimeout(2000);
   } catch (error: any) {
-    console.error("\nLogin failed. Please check:");
-    console.error("  - Your email and password are correct");
-    console.error("  - You have access to ScholarVox via CESI");
-    console.error(`\nError: ${error.message}`);
+    if (debug) console.log("Login stopped at:", page.url());
+    throw toVoxFetchError(error);
+  }
+}
+
+/**
+ * Wait for a login form field; a missing field means the SSO page no longer
+ * looks like what the provider expects.
+ */
+async function expectField(
+  page: Page,
+  field: Locator,
+  description: string,
+  timeoutMs: number
+): Promise<void> {
+  try {
+    await field.waitFor({ state: "visible", timeout: timeoutMs });
+  } catch {
+    throw new SsoPageChangedError(page.url(), `no ${description}`);
+  }
+}
+
+// MFA prompts, one-time-code inputs and "stay signed in?" consent screens
+const SECOND_FACTOR_SELECTOR = [
+  'input[autocomplete="one-time-code"]',
+  'input[name*="otp" i]',
+  'input[name*="totp" i]',
+  'input[id*="otp" i]',
+  "#idDiv_SAOTCAS_Title",
+  "#KmsiCheckboxField",
+  "text=/code de v[ée]rification|verification code|authentification (à|a) (deux|2) facteurs|two-factor|approuver la demande|approve sign in/i",
+].join(", ");
+
+// Error banners shown by common IdPs (ADFS, Azure AD, Keycloak, CAS,
+// Shibboleth) when the email or password is wrong
+const ERROR_BANNER_SELECTOR = [
+  "#errorText",
+  "#usernameError",
+  "#passwordError",
+  "#error.errors",
+  ".kc-feedback-text",
+  ".alert-danger",
+  ".form-error",
+  "text=/mot de passe (est )?incorrect|identifiants? (incorrects?|invalides?)|invalid (username|password|credentials)|incorrect (user ?name|password)|account or password is incorrect/i",
+].join(", ");
+
+function errorBannerSelector(provider: LoginProvider): string {
+  return provider.selectors.error
+    ? `${provider.selectors.error}, ${ERROR_BANNER_SELECTOR}`
+    : ERROR_BANNER_SELECTOR;
+}
+
+async function readErrorBanner(
+  page: Page,
+  provider: LoginProvider
+): Promise<string | null> {
+  const text = await page
+    .locator(errorBannerSelector(provider))
+    .first()
+    .innerText({ timeout: 1000 })
+    .catch(() => "");
+  return text.replace(/\s+/g, " ").trim() || null;
+}
+
+async function waitForLoginOutcome(
+  page: Page,
+  provider: LoginProvider,
+  timeoutMs: number
+): Promise<"success" | "second-factor" | "rejected"> {
+  const selector = provider.selectors.secondFactor
+    ? `${provider.selectors.secondFactor}, ${SECOND_FACTOR_SELECTOR}`
+    : SECOND_FACTOR_SELECTOR;
+
+  const success = page
+    .waitForURL(providerSuccessUrl(provider), { timeout: timeoutMs })
+    .then(() => "success" as const);
+  const secondFactor = page
+    .locator(selector)
+    .first()
+    .waitFor({ state: "visible", timeout: timeoutMs })
+    .then(() => "second-factor" as const);
+  const rejected = page
+    .locator(errorBannerSelector(provider))
+    .first()
+    .waitFor({ state: "visible", timeout: timeoutMs })
+    .then(() => "rejected" as const);
+
+  // Only one of them settles first; keep the others from rejecting unhandled
+  success.catch(() => {});
+  secondFactor.catch(() => {});
+  rejected.catch(() => {});
+
+  return Promise.any([success, secondFactor, rejected]).catch(() => {
+    throw new NetworkTimeoutError(
+      `No answer from the identity provider after ${timeoutMs / 1000}s (still at ${page.url()}).`
+    );
+  });
+}
+
+export async function loginCESI(
+  page: Page,
+  email: string,
+  password: string,
+  debug: boolean = false
+): Promise<void> {
+  try {
+    await loginWithProvider(
+      page,
+      getLoginProvider("cesi")!,
+      email,
+      password,
+      debug
+    );
+  } catch (error: any) {
+    printLoginFailure("CESI", error);
     throw error;
   }
 }
+
+/**
+ * Explain a failed login, with hints that depend on the cause. The error
+ * message itself is printed by the caller.
+ */
+export function printLoginFailure(institution: string, error: Error) {
+  console.error("\nLogin failed. Please check:");
+  if (error instanceof InvalidCredentialsError) {
+    console.error("  - Your email and password are correct");
+    console.error(`  - You have access to ScholarVox via ${institution}`);
+  } else if (error instanceof SsoPageChangedError) {
+    console.error(`  - The ${institution} login page may have changed`);
+    console.error("  - Run with --debug to see where the login stopped");
+  } else if (error instanceof SecondFactorRequiredError) {
+    console.error("  - Your account requires a second factor");
+    console.error("  - Allow the interactive login to finish it by hand");
+  } else if (error instanceof NetworkTimeoutError) {
+    console.error("  - Your internet connection");
+    console.error(`  - That the ${institution} login page is reachable`);
+  } else {
+    console.error("  - Your email and password are correct");
+    console.error(`  - You have access to ScholarVox via ${institution}`);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * How many pages to print per page.pdf() call. Chromium lays out and
+ * rasterizes everything visible in one print, so its memory grows with the
+ * printed area: chunks are sized so that each print covers about the same
+ * area whatever the book, which keeps the peak flat for very long books.
+ */
+
+export type PageArea = {
+  width: number; // px, as laid out in the reader
+  height: number;
+};
+
+export type ChunkLimits = {
+  maxPages: number; // never more pages than this per chunk
+  maxMegapixels: number; // page area printed at once
+};
+
+/**
+ * Chunk size for `pageCount` pages of at most `largest` size. The chunks are
+ * then evened out, so that 60 pages in chunks of up to 50 become 2 x 30
+ * instead of 50 + 10.
+ */
+export function autoChunkSize(
+  pageCount: number,
+  largest: PageArea,
+  { maxPages, maxMegapixels }: ChunkLimits
+): number {
+  const pagePixels = Math.max(1, largest.width * largest.height);
+  const byArea = Math.floor((maxMegapixels * 1e6) / pagePixels);
+  const limit = Math.max(1, Math.min(maxPages, byArea));
+
+  const chunks = Math.ceil(Math.max(pageCount, 1) / limit);
+  return Math.ceil(Math.max(pageCount, 1) / chunks);
+}
@@ -0,0 +1,284 @@
+/**
+ * Defaults read from voxfetch.config.json: one user-level file (shared by
+ * every project) and one in the working directory, merged in that order over
+ * the built-in values. Command-line flags override both.
+ */
+
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  DEFAULT_ENDPOINTS,
+  configureEndpoints,
+  type Endpoints,
+} from "./endpoints.js";
+import { VoxFetchError } from "./errors.js";
+import { DEFAULT_INSTITUTION } from "./loginProviders.js";
+import {
+  COLLISION_STRATEGIES,
+  FILENAME_CHARSETS,
+  assertFilenameTemplate,
+  type CollisionStrategy,
+  type FilenameCharset,
+} from "./filenameTemplate.js";
+import { setDebug } from "./terminal.js";
+
+export const CONFIG_FILENAME = "voxfetch.config.json";
+
+export type RenderMode = "chunked" | "single" | "page";
+export const RENDER_MODES: RenderMode[] = ["chunked", "single", "page"];
+export type LogLevel = "info" | "debug";
+
+export type VoxFetchConfig = {
+  outputDir: string;
+  filenameTemplate: string; // see utils/filenameTemplate.ts
+  filenameCharset: FilenameCharset;
+  onCollision: CollisionStrategy; // when the output file already exists
+  account: string | null; // named account used when --account is not given
+  institution: string;
+  logLevel: LogLevel;
+  timeouts: {
+    navigation: number; // ms to load the reader page
+    iframe: number; // ms to load the reader iframe
+    login: number; // ms to reach the institution's login page
+    pageReady: number; // ms a page may take to render (see utils/pageReady.ts)
+  };
+  viewport: { width: number; height: number }; // of the reader iframe tab
+  render: {
+    mode: RenderMode; // see DownloadOptions.renderMode
+    chunkSize: number; // most pages per print and checkpointed chunk
+    chunkMegapixels: number; // page area printed at once (sets the chunk size)
+    concurrency: number; // worker tabs in "page" mode
+    settleTime: number; // ms without requests or DOM changes = rendered
+    referenceScale: number; // print scale of a page referenceWidth px wide
+    referenceWidth: number;
+  };
+  endpoints: Partial<Endpoints>; // see utils/endpoints.ts
+};
+
+export const DEFAULT_CONFIG: VoxFetchConfig = {
+  outputDir: "output",
+  filenameTemplate: "{title:slug}-{docid}.pdf",
+  filenameCharset: "unicode",
+  onCollision: "overwrite",
+  account: null,
+  institution: DEFAULT_INSTITUTION,
+  logLevel: "info",
+  timeouts: {
+    navigation: 30000,
+    iframe: 15000,
+    login: 45000,
+    pageReady: 10000,
+  },
+  viewport: { width: 2800, height: 2100 },
+  render: {
+    mode: "chunked",
+    chunkSize: 50,
+    chunkMegapixels: 200,
+    concurrency: 1,
+    settleTime: 150,
+    referenceScale: 0.4,
+    referenceWidth: 1080,
+  },
+  endpoints: {},
+};
+
+const CHOICES: Record<string, readonly string[]> = {
+  logLevel: ["info", "debug"],
+  filenameCharset: FILENAME_CHARSETS,
+  onCollision: COLLISION_STRATEGIES,
+  "render.mode": RENDER_MODES,
+};
+
+// Keys whose value may be null
+const NULLABLE = new Set(["account"]);
+
+// Counts and pixel sizes: whole numbers only
+const INTEGER = new Set([
+  "viewport.width",
+  "viewport.height",
+  "render.chunkSize",
+  "render.concurrency",
+  "render.referenceWidth",
+]);
+
+// Settings that were renamed, still read under their old name
+const RENAMED: Record<string, string> = {
+  "render.scrollDelay": "render.settleTime",
+};
+
+// What each setting is checked against: the defaults, plus every endpoint
+const SCHEMA = { ...DEFAULT_CONFIG, endpoints: DEFAULT_ENDPOINTS };
+
+export type ConfigFile = {
+  path: string;
+  found: boolean;
+};
+
+let current: VoxFetchConfig = DEFAULT_CONFIG;
+let files: ConfigFile[] = [];
+
+/**
+ * The user-level config file: $XDG_CONFIG_HOME/voxfetch (or %APPDATA% on
+ * Windows, ~/.config elsewhere)
+ */
+export function userConfigPath(): string {
+  const base =
+    process.env.XDG_CONFIG_HOME ||
+    (process.platform === "win32" && process.env.APPDATA) ||
+    path.join(os.homedir(), ".config");
+  return path.join(base, "voxfetch", CONFIG_FILENAME);
+}
+
+export function projectConfigPath(): string {
+  return path.resolve(CONFIG_FILENAME);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge `override` (parsed from `file`) into `base`, checking every value
+ * against the type of its default. Unknown keys are reported and ignored.
+ */
+function mergeChecked(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>,
+  file: string,
+  prefix = ""
+): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [given, value] of Object.entries(override)) {
+    const renamed = RENAMED[prefix + given];
+    const name = renamed ?? prefix + given;
+    const key = name.slice(prefix.length);
+    if (renamed) {
+      const old = prefix + given;
+      if (key in override) {
+        console.warn(`Warning: ${file}: "${old}" ignored, "${name}" is set.`);
+        continue;
+      }
+      console.warn(`Warning: ${file}: "${old}" is deprecated, use "${name}".`);
+    }
+    const schema = defaultAt(name);
+    const invalid = (expected: string) =>
+      new VoxFetchError(`${file}: "${name}" must be ${expected}.`);
+
+    if (schema === undefined) {
+      console.warn(`Warning: ${file}: unknown setting "${name}" ignored.`);
+      continue;
+    }
+    if (value === null && NULLABLE.has(name)) {
+      merged[key] = null;
+    } else if (isObject(schema)) {
+      if (!isObject(value)) throw invalid("an object");
+      const nested = merged[key];
+      merged[key] = mergeChecked(
+        isObject(nested) ? nested : {},
+        value,
+        file,
+        `${name}.`
+      );
+    } else if (typeof schema === "number") {
+      const whole = INTEGER.has(name);
+      if (
+        typeof value !== "number" ||
+        !(value > 0) ||
+        (whole && !Number.isInteger(value))
+      ) {
+        throw invalid(whole ? "a positive whole number" : "a positive number");
+      }
+      merged[key] = value;
+    } else {
+      if (!isString(value)) throw invalid("a string");
+      if (CHOICES[name] && !CHOICES[name].includes(value)) {
+        throw invalid(`one of ${CHOICES[name].join(", ")}`);
+      }
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * `dir` with a leading "~" replaced by the home directory, as a shell would
+ */
+export function expandHome(dir: string): string {
+  if (dir === "~") return os.homedir();
+  if (/^~[\\/]/.test(dir)) return path.join(os.homedir(), dir.slice(2));
+  return dir;
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+// Schema value at a dotted path; null defaults are reported as ""
+function defaultAt(name: string): unknown {
+  let value: unknown = SCHEMA;
+  for (const key of name.split(".")) {
+    if (!isObject(value) || !(key in value)) return undefined;
+    value = value[key];
+  }
+  return value ?? "";
+}
+
+async function readConfigFile(file: string): Promise<unknown | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf8");
+  } catch {
+    return null;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch (err: any) {
+    throw new VoxFetchError(`${file} is not valid JSON: ${err.message}`);
+  }
+}
+
+/**
+ * Read and merge the config files, then apply the endpoint overrides and log
+ * level. Later calls to getConfig() return the result.
+ */
+export async function loadConfig(): Promise<VoxFetchConfig> {
+  let config: Record<string, unknown> = DEFAULT_CONFIG;
+  files = [];
+  for (const file of [userConfigPath(), projectConfigPath()]) {
+    const parsed = await readConfigFile(file);
+    files.push({ path: file, found: parsed !== null });
+    if (parsed === null) continue;
+    if (!isObject(parsed)) {
+      throw new VoxFetchError(`${file} must contain a JSON object.`);
+    }
+    config = mergeChecked(config, parsed, file);
+    // Always a string once checked against the schema
+    const template = config.filenameTemplate;
+    try {
+      if (isString(template)) assertFilenameTemplate(template);
+    } catch (err: any) {
+      throw new VoxFetchError(`${file}: "filenameTemplate": ${err.message}`);
+    }
+  }
+
+  const merged = config as VoxFetchConfig;
+  current = { ...merged, outputDir: expandHome(merged.outputDir) };
+  configureEndpoints(current.endpoints);
+  if (current.logLevel === "debug") setDebug(true);
+  return current;
+}
+
+/**
+ * The effective configuration (the defaults until loadConfig() has run)
+ */
+export function getConfig(): VoxFetchConfig {
+  return current;
+}
+
+/**
+ * The config files looked at by the last loadConfig(), in merge order
+ */
+export function configFiles(): ConfigFile[] {
+  return files;
+}
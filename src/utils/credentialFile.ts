@@ -0,0 +1,120 @@
+/**
+ * Passphrase-encrypted credential file, used where the OS keyring is not
+ * available (e.g. headless Linux without Secret Service). The file holds the
+ * credentials encrypted with AES-256-GCM under a key derived from the
+ * passphrase with scrypt.
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import { statePath } from "./paths.js";
+import { VoxFetchError } from "./errors.js";
+import type { Credentials } from "./credentials.js";
+
+type EncryptedFile = {
+  version: 1;
+  kdf: "scrypt";
+  salt: string; // base64
+  iv: string; // base64
+  tag: string; // base64
+  data: string; // base64 ciphertext of the JSON credentials
+};
+
+/**
+ * Encrypted file of a named account, or of the single unnamed slot
+ */
+export function credentialFilePath(account?: string | null): string {
+  return statePath(account ? `credentials-${account}.enc` : "credentials.enc");
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32);
+}
+
+export async function hasCredentialFile(
+  account?: string | null
+): Promise<boolean> {
+  try {
+    await fs.access(credentialFilePath(account));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function writeCredentialFile(
+  creds: Credentials,
+  passphrase: string,
+  account?: string | null
+): Promise<void> {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(
+    "aes-256-gcm",
+    deriveKey(passphrase, salt),
+    iv
+  );
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(creds), "utf8"),
+    cipher.final(),
+  ]);
+  const file: EncryptedFile = {
+    version: 1,
+    kdf: "scrypt",
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+
+  const target = credentialFilePath(account);
+  await fs.mkdir(statePath(), { recursive: true });
+  await fs.writeFile(target, JSON.stringify(file, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Decrypt the credential file. Returns null if there is none; throws if the
+ * passphrase is wrong or the file is damaged.
+ */
+export async function readCredentialFile(
+  passphrase: string,
+  account?: string | null
+): Promise<Credentials | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(credentialFilePath(account), "utf8");
+  } catch {
+    return null;
+  }
+
+  try {
+    const file = JSON.parse(raw) as EncryptedFile;
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      deriveKey(passphrase, Buffer.from(file.salt, "base64")),
+      Buffer.from(file.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+    const json = Buffer.concat([
+      decipher.update(Buffer.from(file.data, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+    const parsed = JSON.parse(json);
+    return { email: parsed.email, password: parsed.password };
+  } catch {
+    throw new VoxFetchError(
+      `Could not decrypt ${credentialFilePath(account)}: wrong passphrase or damaged file.`
+    );
+  }
+}
+
+export async function deleteCredentialFile(
+  account?: string | null
+): Promise<boolean> {
+  try {
+    await fs.rm(credentialFilePath(account));
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,19 +1,61 @@
 /**
  * Credential management for CESI login
- * Uses OS-level secure credential storage (Windows Credential Manager, macOS Keychain, Linux Secret Service)
+ * Credentials are looked up in a chain: CLI flags, VOXFETCH_EMAIL /
+ * VOXFETCH_PASSWORD (also read from .env), the OS keyring (Windows Credential
+ * Manager, macOS Keychain, Linux Secret Service), then a passphrase-encrypted
+ * file for machines without a keyring. A named account skips the
+ * environment variables: they hold another identity, whose session would
+ * otherwise be saved under the account's name.
  */
 
 import { Entry } from "@napi-rs/keyring";
+import { config as loadDotenv } from "dotenv";
 import readline from "node:readline";
+import {
+  credentialFilePath,
+  deleteCredentialFile,
+  hasCredentialFile,
+  readCredentialFile,
+  writeCredentialFile,
+} from "./credentialFile.js";
+import { VoxFetchError } from "./errors.js";
 
 const SERVICE_NAME = "voxfetch-cesi";
 const ACCOUNT_KEY = "cesi-credentials";
 
-interface Credentials {
+/**
+ * Keyring entry of a named account (see utils/accounts.ts), or the single
+ * unnamed slot when `account` is null
+ */
+function keyringKey(account?: string | null): string {
+  return account ? `account:${account}` : ACCOUNT_KEY;
+}
+
+const ENV_EMAIL = "VOXFETCH_EMAIL";
+const ENV_PASSWORD = "VOXFETCH_PASSWORD";
+const ENV_PASSPHRASE = "VOXFETCH_PASSPHRASE";
+const ENV_STORE = "VOXFETCH_CREDENTIAL_STORE"; // force "keyring" or "file"
+
+export interface Credentials {
   email: string;
   password: string;
 }
 
+export type CredentialSource = "flags" | "env" | "keyring" | "file";
+
+// Where `voxfetch login` saves credentials
+export type CredentialStore = "keyring" | "file";
+
+let dotenvLoaded = false;
+
+function readEnv(name: string): string | undefined {
+  if (!dotenvLoaded) {
+    loadDotenv({ quiet: true });
+    dotenvLoaded = true;
+  }
+  return process.env[name] || undefined;
+}
+
 function askQuestion(
   question: string,
   hidden: boolean = false
@@ -78,29 +120,75 @@ function askQuestion(
 }
 
 /**
- * Save credentials to OS keychain
+ * Credentials from VOXFETCH_EMAIL and VOXFETCH_PASSWORD, or null unless both
+ * are set
  */
-export async function saveCredentials(
-  email: string,
-  password: string
-): Promise<void> {
-  try {
-    const entry = new Entry(SERVICE_NAME, ACCOUNT_KEY);
-    const data = JSON.stringify({ email, password });
-    entry.setPassword(data);
-    console.log("Credentials saved securely to system keychain.");
-  } catch (error) {
-    console.error("Failed to save credentials:", error);
-    throw error;
-  }
+export function envCredentials(): Credentials | null {
+  const email = readEnv(ENV_EMAIL);
+  const password = readEnv(ENV_PASSWORD);
+  return email && password ? { email, password } : null;
+}
+
+let keyringProbe: Promise<boolean> | null = null;
+
+/**
+ * Whether the OS keyring can store a secret and read it back. Without a
+ * Secret Service, writes fail or are silently lost, so a probe entry is
+ * written once per run.
+ */
+export function keyringAvailable(): Promise<boolean> {
+  keyringProbe ??= (async () => {
+    try {
+      const probe = new Entry(SERVICE_NAME, "probe");
+      const value = `probe-${Date.now()}`;
+      probe.setPassword(value);
+      const ok = probe.getPassword() === value;
+      probe.deletePassword();
+      return ok;
+    } catch {
+      return false;
+    }
+  })();
+  return keyringProbe;
 }
 
 /**
- * Load credentials from OS keychain
+ * Where saved credentials go: the keyring when it works, otherwise the
+ * encrypted file. VOXFETCH_CREDENTIAL_STORE=keyring|file overrides this.
  */
-export async function loadCredentials(): Promise<Credentials | null> {
+export async function credentialStore(): Promise<CredentialStore> {
+  const forced = readEnv(ENV_STORE);
+  if (forced === "keyring" || forced === "file") return forced;
+  return (await keyringAvailable()) ? "keyring" : "file";
+}
+
+/**
+ * Passphrase of the encrypted credential file: VOXFETCH_PASSPHRASE, or a
+ * prompt when running in a terminal
+ */
+async function filePassphrase(confirm: boolean): Promise<string> {
+  const fromEnv = readEnv(ENV_PASSPHRASE);
+  if (fromEnv) return fromEnv;
+  if (!process.stdin.isTTY) {
+    throw new VoxFetchError(
+      `Set ${ENV_PASSPHRASE} to use the encrypted credential file without a terminal.`
+    );
+  }
+
+  const passphrase = await askQuestion("Credential file passphrase: ", true);
+  if (!passphrase) throw new VoxFetchError("A passphrase is required.");
+  if (confirm) {
+    const again = await askQuestion("Repeat passphrase: ", true);
+    if (again !== passphrase) {
+      throw new VoxFetchError("The passphrases do not match.");
+    }
+  }
+  return passphrase;
+}
+
+function readKeyring(account?: string | null): Credentials | null {
   try {
-    const entry = new Entry(SERVICE_NAME, ACCOUNT_KEY);
+    const entry = new Entry(SERVICE_NAME, keyringKey(account));
     const data = entry.getPassword();
     if (!data) {
       return null;
@@ -117,20 +205,129 @@ export async function loadCredentials(): Promise<Credentials | null> {
 }
 
 /**
- * Delete credentials from OS keychain
+ * Save credentials to the OS keychain, or to the encrypted file when no
+ * keychain is available
  */
-export async function deleteCredentials(): Promise<void> {
+export async function saveCredentials(
+  email: string,
+  password: string,
+  account?: string | null
+): Promise<void> {
+  if ((await credentialStore()) === "file") {
+    await writeCredentialFile(
+      { email, password },
+      await filePassphrase(true),
+      account
+    );
+    console.log(
+      `Credentials saved to ${credentialFilePath(account)} (encrypted with your passphrase).`
+    );
+    return;
+  }
+
+  try {
+    const entry = new Entry(SERVICE_NAME, keyringKey(account));
+    const data = JSON.stringify({ email, password });
+    entry.setPassword(data);
+    console.log("Credentials saved securely to system keychain.");
+  } catch (error) {
+    console.error("Failed to save credentials:", error);
+    throw error;
+  }
+}
+
+/**
+ * Load saved credentials: the OS keychain first, then the encrypted file
+ * (which asks for its passphrase)
+ */
+export async function loadCredentials(
+  account?: string | null
+): Promise<Credentials | null> {
+  const fromKeyring = readKeyring(account);
+  if (fromKeyring) return fromKeyring;
+  if (await hasCredentialFile(account)) {
+    return readCredentialFile(await filePassphrase(false), account);
+  }
+  return null;
+}
+
+/**
+ * Delete saved credentials from the OS keychain and the encrypted file
+ */
+export async function deleteCredentials(
+  account?: string | null
+): Promise<void> {
   try {
-    const entry = new Entry(SERVICE_NAME, ACCOUNT_KEY);
-    entry.deletePassword();
-    console.log("Credentials deleted from system keychain.");
+    const entry = new Entry(SERVICE_NAME, keyringKey(account));
+    if (entry.deletePassword()) {
+      console.log("Credentials deleted from system keychain.");
+    }
   } catch (error) {
     // Credentials don't exist, that's fine
   }
+  if (await deleteCredentialFile(account)) {
+    console.log(`Credentials deleted from ${credentialFilePath(account)}.`);
+  }
+}
+
+export type CredentialSourceStatus = {
+  source: CredentialSource;
+  detail: string;
+  provides: boolean; // this source has credentials to offer
+};
+
+/**
+ * Describe every credential source in lookup order, without prompting.
+ * The encrypted file is reported as present but not decrypted.
+ */
+export async function credentialStatus(
+  emailArg?: string,
+  passwordArg?: string,
+  account?: string | null
+): Promise<CredentialSourceStatus[]> {
+  const env = account ? null : envCredentials();
+  const keyringOk = await keyringAvailable();
+  const fromKeyring = keyringOk ? readKeyring(account) : null;
+  const hasFile = await hasCredentialFile(account);
+
+  return [
+    {
+      source: "flags",
+      provides: Boolean(emailArg && passwordArg),
+      detail:
+        emailArg && passwordArg ? emailArg : "--email and --password not given",
+    },
+    {
+      source: "env",
+      provides: env !== null,
+      detail: env
+        ? `${env.email} (${ENV_EMAIL}, ${ENV_PASSWORD})`
+        : account && envCredentials()
+          ? `${ENV_EMAIL} and ${ENV_PASSWORD} ignored for account "${account}"`
+          : `${ENV_EMAIL} and ${ENV_PASSWORD} not set`,
+    },
+    {
+      source: "keyring",
+      provides: fromKeyring !== null,
+      detail: !keyringOk
+        ? "unavailable (no working system keychain)"
+        : fromKeyring
+          ? fromKeyring.email
+          : "available, nothing saved",
+    },
+    {
+      source: "file",
+      provides: hasFile,
+      detail: hasFile
+        ? `${credentialFilePath(account)} (encrypted)`
+        : `no ${credentialFilePath(account)}`,
+    },
+  ];
 }
 
 export async function promptCredentials(
-  allowSave: boolean = true
+  allowSave: boolean = true,
+  account?: string | null
 ): Promise<Credentials> {
   const email = await askQuestion("CESI Email: ");
   const password = await askQuestion("Password: ", true);
@@ -138,24 +335,45 @@ export async function promptCredentials(
   if (allowSave) {
     const save = await askQuestion("Save credentials for future use? (y/n): ");
     if (save.toLowerCase() === "y" || save.toLowerCase() === "yes") {
-      await saveCredentials(email, password);
+      await saveCredentials(email, password, account);
     }
   }
 
   return { email, password };
 }
 
+export type GetCredentialsOptions = {
+  /**
+   * When false, never touch stdin: saved credentials are used as-is and a
+   * missing entry is an error instead of a prompt (scripted CLI commands).
+   */
+  interactive?: boolean;
+  account?: string | null; // named account to read saved credentials from
+};
+
 export async function getCredentials(
   emailArg?: string,
-  passwordArg?: string
+  passwordArg?: string,
+  opts: GetCredentialsOptions = {}
 ): Promise<Credentials> {
+  const { interactive = true, account = null } = opts;
+
   // Priority 1: Command line arguments
   if (emailArg && passwordArg) {
     return { email: emailArg, password: passwordArg };
   }
 
-  // Priority 2: Check for stored credentials
-  const stored = await loadCredentials();
+  // Priority 2: Environment variables (or .env), unless an account is named
+  const fromEnv = account ? null : envCredentials();
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  // Priority 3: Check for stored credentials
+  const stored = await loadCredentials(account);
+  if (stored && !interactive) {
+    return stored;
+  }
   if (stored) {
     console.log(`Found saved credentials for: ${stored.email}`);
     const use = await askQuestion("Use saved credentials? (y/n): ");
@@ -169,11 +387,17 @@ export async function getCredentials(
         deleteOld.toLowerCase() === "y" ||
         deleteOld.toLowerCase() === "yes"
       ) {
-        await deleteCredentials();
+        await deleteCredentials(account);
       }
     }
   }
 
-  // Priority 3: Prompt user for new credentials
-  return await promptCredentials();
+  if (!interactive) {
+    throw new VoxFetchError(
+      `No credentials available. Pass --email and --password, set ${ENV_EMAIL} and ${ENV_PASSWORD}, or run \`voxfetch login\` first.`
+    );
+  }
+
+  // Priority 4: Prompt user for new credentials
+  return await promptCredentials(true, account);
 }
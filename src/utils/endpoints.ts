@@ -0,0 +1,130 @@
+/**
+ * Where ScholarVox lives. Every URL the tool opens is built from this map, so
+ * it can be pointed at another ScholarVox portal or at a local test server.
+ *
+ * Paths are templates: `{docid}`, `{page}` and `{institution}` are replaced
+ * (URL-encoded) when the URL is built. Environment variables win over
+ * `configureEndpoints()`, which wins over the defaults.
+ */
+
+import { VoxFetchError } from "./errors.js";
+
+export type Endpoints = {
+  baseUrl: string; // origin of the portal, e.g. https://univ.scholarvox.com
+  catalog: string; // book detail page
+  reader: string; // reader page that embeds the book iframe
+  samlEntry: string; // start of an institution's SAML login
+  wayf: string; // "where are you from" page of an institution
+  cookieDomain: string; // domain that carries the SFSESSID session cookie
+};
+
+export type EndpointPath = "catalog" | "reader" | "samlEntry" | "wayf";
+
+export const DEFAULT_ENDPOINTS: Endpoints = {
+  baseUrl: "https://univ.scholarvox.com",
+  catalog: "/catalog/book/docid/{docid}",
+  reader: "/reader/docid/{docid}/page/{page}",
+  samlEntry: "/saml-sp/via{institution}",
+  wayf: "/{institution}wayf",
+  cookieDomain: "scholarvox.com",
+};
+
+export const ENDPOINT_ENV: Record<keyof Endpoints, string> = {
+  baseUrl: "VOXFETCH_BASE_URL",
+  catalog: "VOXFETCH_CATALOG_PATH",
+  reader: "VOXFETCH_READER_PATH",
+  samlEntry: "VOXFETCH_SAML_PATH",
+  wayf: "VOXFETCH_WAYF_PATH",
+  cookieDomain: "VOXFETCH_COOKIE_DOMAIN",
+};
+
+let configured: Partial<Endpoints> = {};
+
+/**
+ * Override endpoints programmatically (e.g. from a config file). Replaces
+ * any earlier overrides; environment variables still take precedence.
+ */
+export function configureEndpoints(overrides: Partial<Endpoints>): void {
+  configured = { ...overrides };
+}
+
+function fromEnv(): Partial<Endpoints> {
+  const env: Partial<Endpoints> = {};
+  for (const key of Object.keys(ENDPOINT_ENV) as (keyof Endpoints)[]) {
+    const value = process.env[ENDPOINT_ENV[key]]?.trim();
+    if (value) env[key] = value;
+  }
+  return env;
+}
+
+/**
+ * Cookie domain of a portal: its host without the first label
+ * (univ.scholarvox.com -> scholarvox.com); IPs and two-label hosts as is.
+ */
+function cookieDomainOf(baseUrl: string): string {
+  const host = new URL(baseUrl).hostname;
+  const labels = host.split(".");
+  if (/^[\d.]+$/.test(host) || host.startsWith("[") || labels.length <= 2) {
+    return host;
+  }
+  return labels.slice(1).join(".");
+}
+
+/**
+ * The endpoints in effect. When only the base URL is overridden, the cookie
+ * domain follows it.
+ */
+export function getEndpoints(): Endpoints {
+  const overrides = { ...configured, ...fromEnv() };
+  const merged = { ...DEFAULT_ENDPOINTS, ...overrides };
+
+  let baseUrl: URL;
+  try {
+    baseUrl = new URL(merged.baseUrl);
+  } catch {
+    throw new VoxFetchError(`Invalid ScholarVox base URL "${merged.baseUrl}".`);
+  }
+  merged.baseUrl = baseUrl.origin;
+  if (overrides.baseUrl && !overrides.cookieDomain) {
+    merged.cookieDomain = cookieDomainOf(merged.baseUrl);
+  }
+  merged.cookieDomain = merged.cookieDomain.replace(/^\./, "").toLowerCase();
+  return merged;
+}
+
+/**
+ * Absolute URL of a ScholarVox endpoint, e.g.
+ * endpointUrl("reader", { docid: "88853415", page: 1 })
+ */
+export function endpointUrl(
+  name: EndpointPath,
+  params: Record<string, string | number> = {}
+): string {
+  const endpoints = getEndpoints();
+  const path = endpoints[name].replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in params ? encodeURIComponent(String(params[key])) : match
+  );
+  return new URL(path, endpoints.baseUrl).href;
+}
+
+/**
+ * Whether a cookie domain (".scholarvox.com", "univ.scholarvox.com", ...)
+ * belongs to the configured ScholarVox cookie domain
+ */
+export function isScholarVoxDomain(domain: string): boolean {
+  const host = domain.replace(/^\./, "").toLowerCase();
+  const { cookieDomain } = getEndpoints();
+  return host === cookieDomain || host.endsWith(`.${cookieDomain}`);
+}
+
+/**
+ * Matches any URL on the ScholarVox cookie domain: where the IdP sends us
+ * back after a successful login
+ */
+export function scholarVoxUrlPattern(): RegExp {
+  const domain = getEndpoints().cookieDomain.replace(
+    /[.*+?^${}()|[\]\\]/g,
+    "\\$&"
+  );
+  return new RegExp(`^https?://([^/]+\\.)?${domain}(:\\d+)?(/|$)`, "i");
+}
@@ -0,0 +1,132 @@
+/**
+ * Typed errors for login and download failures. Every error carries the exit
+ * code the CLI terminates with, so wrapper scripts can react to the cause
+ * (see "Exit Codes" in the README).
+ */
+
+import { errors as playwrightErrors } from "playwright";
+import type { BookStatus } from "../helpers/bookCheck.js";
+
+export const ExitCode = {
+  Ok: 0,
+  Unknown: 1,
+  InvalidCredentials: 10,
+  SsoPageChanged: 11,
+  SecondFactorRequired: 12,
+  SessionExpired: 13,
+  NetworkTimeout: 20,
+  BookNotFound: 30,
+  BookRemoved: 31,
+  BookAvailableSoon: 32,
+  RenderIncomplete: 40,
+} as const;
+
+export class VoxFetchError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: number = ExitCode.Unknown
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The identity provider rejected the email/password */
+export class InvalidCredentialsError extends VoxFetchError {
+  constructor(
+    message = "The identity provider rejected your email or password."
+  ) {
+    super(message, ExitCode.InvalidCredentials);
+  }
+}
+
+/** The SSO login page does not look like what the login provider expects */
+export class SsoPageChangedError extends VoxFetchError {
+  constructor(
+    readonly url: string,
+    detail?: string
+  ) {
+    super(
+      `The login page at ${url} did not match what was expected${
+        detail ? ` (${detail})` : ""
+      }. The SSO page may have changed.`,
+      ExitCode.SsoPageChanged
+    );
+  }
+}
+
+/** The identity provider asks for MFA or a consent screen */
+export class SecondFactorRequiredError extends VoxFetchError {
+  constructor() {
+    super(
+      "The identity provider asks for a second factor or a consent screen.",
+      ExitCode.SecondFactorRequired
+    );
+  }
+}
+
+/** ScholarVox no longer recognises the session */
+export class SessionExpiredError extends VoxFetchError {
+  constructor(message = "The ScholarVox session has expired.") {
+    super(message, ExitCode.SessionExpired);
+  }
+}
+
+/** A page load or request timed out, or the network failed */
+export class NetworkTimeoutError extends VoxFetchError {
+  constructor(message: string) {
+    super(message, ExitCode.NetworkTimeout);
+  }
+}
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<BookStatus, "FOUND">, string> = {
+  REMOVED: "This book has been removed or is no longer available.",
+  AVAILABLE_SOON:
+    "This book will be available soon but is not currently accessible.",
+  NOT_FOUND: "Book ID not found. Please check the ID and try again.",
+};
+
+/** The catalog reports the book as not downloadable */
+export class BookUnavailableError extends VoxFetchError {
+  constructor(readonly status: Exclude<BookStatus, "FOUND">) {
+    super(UNAVAILABLE_MESSAGES[status], bookStatusExitCode(status));
+  }
+}
+
+/** The reader did not render (all of) the book */
+export class RenderIncompleteError extends VoxFetchError {
+  constructor(message: string) {
+    super(message, ExitCode.RenderIncomplete);
+  }
+}
+
+export function bookStatusExitCode(status: BookStatus): number {
+  switch (status) {
+    case "FOUND":
+      return ExitCode.Ok;
+    case "REMOVED":
+      return ExitCode.BookRemoved;
+    case "AVAILABLE_SOON":
+      return ExitCode.BookAvailableSoon;
+    default:
+      return ExitCode.BookNotFound;
+  }
+}
+
+/**
+ * Map any thrown value to a VoxFetchError: Playwright timeouts and network
+ * failures become NetworkTimeoutError, anything unknown keeps exit code 1.
+ */
+export function toVoxFetchError(err: unknown): VoxFetchError {
+  if (err instanceof VoxFetchError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  if (
+    err instanceof playwrightErrors.TimeoutError ||
+    /net::ERR_|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|ECONNRESET/.test(message)
+  ) {
+    return new NetworkTimeoutError(message.split("\n")[0]);
+  }
+  const wrapped = new VoxFetchError(message);
+  if (err instanceof Error) wrapped.stack = err.stack;
+  return wrapped;
+}
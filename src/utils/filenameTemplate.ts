@@ -0,0 +1,244 @@
+/**
+ * Output paths built from book metadata, e.g.
+ *   "{authors[0].last}/{year} - {title} ({docid}).pdf"
+ *     -> "Martin/2021 - Introduction aux réseaux (1001).pdf"
+ *
+ * A placeholder is a field, optionally indexed and followed by a name part,
+ * a modifier and a fallback: {field[index].part:modifier|fallback}.
+ *   fields:    docid, title, subtitle, authors, publisher, year, isbn,
+ *              language, collection
+ *   parts:     first, last (of an author name)
+ *   modifiers: slug (hyphens instead of spaces), upper, lower
+ * "/" in the template separates folders. Missing values leave their
+ * separators behind, which are trimmed from each path segment.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { sanitizeFilename, type BookMetadata } from "../helpers/bookMeta.js";
+import { stripAccents } from "./text.js";
+
+export type FilenameCharset = "unicode" | "ascii";
+export type CollisionStrategy = "overwrite" | "suffix" | "skip";
+
+export const FILENAME_CHARSETS: FilenameCharset[] = ["unicode", "ascii"];
+export const COLLISION_STRATEGIES: CollisionStrategy[] = [
+  "overwrite",
+  "suffix",
+  "skip",
+];
+
+const PLACEHOLDER =
+  /\{(\w+)(?:\[(\d+)\])?(?:\.(\w+))?(?::(\w+))?(?:\|([^{}]*))?\}/g;
+
+// Longest file or folder name written (most file systems allow 255 bytes)
+const MAX_SEGMENT_LENGTH = 150;
+
+// Letters that stripAccents() leaves alone
+const ASCII_LIGATURES: Record<string, string> = {
+  œ: "oe",
+  Œ: "OE",
+  æ: "ae",
+  Æ: "AE",
+  ß: "ss",
+  "’": "'",
+  "‘": "'",
+  "«": "",
+  "»": "",
+  "–": "-",
+  "—": "-",
+};
+
+/**
+ * Split an author as shown on the catalog ("Jeanne Martin", "MARTIN Jeanne"
+ * or "Martin, Jeanne") into first and last name
+ */
+export function splitAuthorName(name: string): { first: string; last: string } {
+  const [before, after] = name.split(",").map(s => s.trim());
+  if (after) return { first: after, last: before };
+
+  const words = name.trim().split(/\s+/);
+  if (words.length === 1) return { first: "", last: words[0] };
+
+  // An upper-case word is the family name: "MARTIN Jeanne"
+  const upper = words.filter(
+    w => /\p{Lu}{2,}/u.test(w) && w === w.toUpperCase()
+  );
+  if (upper.length > 0 && upper.length < words.length) {
+    const last = upper.map(w => w[0] + w.slice(1).toLowerCase()).join(" ");
+    return { first: words.filter(w => !upper.includes(w)).join(" "), last };
+  }
+  return { first: words.slice(0, -1).join(" "), last: words[words.length - 1] };
+}
+
+function fieldValues(
+  field: string,
+  docid: string,
+  meta: BookMetadata | null
+): string[] | null {
+  switch (field) {
+    case "docid":
+      return [docid];
+    case "title":
+    case "subtitle":
+    case "publisher":
+    case "language":
+    case "collection":
+      return meta?.[field] ? [meta[field]] : [];
+    case "year":
+      return meta?.year ? [String(meta.year)] : [];
+    case "isbn":
+      return meta?.isbns.slice(0, 1) ?? [];
+    case "authors":
+      return meta?.authors ?? [];
+    default:
+      return null;
+  }
+}
+
+function applyModifier(value: string, modifier: string | undefined): string {
+  switch (modifier) {
+    case "slug":
+      // Same 100-character cut as the file names of earlier versions
+      return sanitizeFilename(value);
+    case "upper":
+      return value.toUpperCase();
+    case "lower":
+      return value.toLowerCase();
+    default:
+      return value;
+  }
+}
+
+/**
+ * Throws with a user-facing message if `template` uses an unknown field,
+ * part or modifier
+ */
+export function assertFilenameTemplate(template: string): void {
+  for (const m of template.matchAll(PLACEHOLDER)) {
+    const [placeholder, field, , part, modifier] = m;
+    if (fieldValues(field, "", null) === null) {
+      throw new Error(`Unknown field in ${placeholder}.`);
+    }
+    if (part && !["first", "last"].includes(part)) {
+      throw new Error(`Unknown name part in ${placeholder} (first or last).`);
+    }
+    if (modifier && !["slug", "upper", "lower"].includes(modifier)) {
+      throw new Error(
+        `Unknown modifier in ${placeholder} (slug, upper or lower).`
+      );
+    }
+  }
+}
+
+type Placeholder = {
+  field: string;
+  index?: string;
+  part?: string;
+  modifier?: string;
+  fallback?: string;
+};
+
+function renderPlaceholder(
+  { field, index, part, modifier, fallback = "" }: Placeholder,
+  docid: string,
+  meta: BookMetadata | null
+): string {
+  let values = fieldValues(field, docid, meta) ?? [];
+  if (index !== undefined) values = values.slice(+index, +index + 1);
+  if (part) {
+    values = values.map(
+      name => splitAuthorName(name)[part as "first" | "last"]
+    );
+  }
+  const value = values.filter(Boolean).join(", ");
+  return applyModifier(value || fallback, modifier);
+}
+
+/**
+ * Make one file or folder name safe: no path or reserved characters, no
+ * trailing dots or spaces, length capped (keeping the extension)
+ */
+function cleanSegment(segment: string, charset: FilenameCharset): string {
+  if (charset === "ascii") {
+    segment = stripAccents(segment).replace(
+      /[^\x00-\x7f]/g,
+      c => ASCII_LIGATURES[c] ?? ""
+    );
+  }
+
+  const name = segment
+    .replace(/[<>:"/\\|?*\u0000-\u001f]/g, "")
+    .replace(/\(\s*\)|\[\s*\]/g, "") // brackets around a missing value
+    .replace(/\s+/g, " ");
+
+  // Separators left by missing values are trimmed around the stem
+  const ext = name.match(/\.\w+$/)?.[0] ?? "";
+  const stem = name
+    .slice(0, name.length - ext.length)
+    .slice(0, MAX_SEGMENT_LENGTH - ext.length)
+    .replace(/^[\s\-_.,]+|[\s\-_.,]+$/g, "");
+  return stem + ext;
+}
+
+/**
+ * Relative output path for a book from `template`. Empty folder names are
+ * dropped; an empty file name falls back to the docid.
+ */
+export function renderFilenameTemplate(
+  template: string,
+  docid: string,
+  meta: BookMetadata | null,
+  charset: FilenameCharset = "unicode"
+): string {
+  const segments = template.split(/[/\\]/).map(segment =>
+    cleanSegment(
+      segment.replace(
+        PLACEHOLDER,
+        (_, field, index, part, modifier, fallback) =>
+          renderPlaceholder(
+            { field, index, part, modifier, fallback },
+            docid,
+            meta
+          )
+      ),
+      charset
+    )
+  );
+
+  // Nothing but an extension left: name the file after the docid
+  let file = segments.pop() ?? "";
+  if (/^(\.\w+)?$/.test(file)) file = docid + file;
+  return path.join(...segments.filter(Boolean), file);
+}
+
+async function exists(target: string): Promise<boolean> {
+  return fs
+    .access(target)
+    .then(() => true)
+    .catch(() => false);
+}
+
+/**
+ * Apply the collision strategy to `outputPath`. Returns the path to write,
+ * or null when the download should be skipped. With `folder`, the chapter
+ * folder next to the PDF path is what must not exist.
+ */
+export async function resolveCollision(
+  outputPath: string,
+  strategy: CollisionStrategy,
+  folder = false
+): Promise<string | null> {
+  const target = (p: string) => (folder ? p.replace(/\.pdf$/i, "") : p);
+  if (strategy === "overwrite" || !(await exists(target(outputPath)))) {
+    return outputPath;
+  }
+  if (strategy === "skip") return null;
+
+  const ext = path.extname(outputPath);
+  const base = outputPath.slice(0, outputPath.length - ext.length);
+  for (let n = 2; ; n++) {
+    const candidate = `${base} (${n})${ext}`;
+    if (!(await exists(target(candidate)))) return candidate;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Institution SSO providers for ScholarVox. Each provider declares where its
+ * SSO flow starts, how to fill its login form and how to recognise success.
+ * Institutions without a provider fall back to an interactive browser login.
+ */
+
+import { endpointUrl, scholarVoxUrlPattern } from "./endpoints.js";
+
+export type LoginProvider = {
+  id: string; // institution slug, e.g. "cesi"
+  name: string; // display name
+  entryUrl?: string; // SAML entry point; defaults to the samlEntry endpoint
+  selectors: {
+    email: string;
+    password: string;
+    submit: string;
+    secondFactor?: string; // extra MFA/consent cues beyond the generic ones
+    error?: string; // IdP banner shown for a wrong email or password
+  };
+  successUrl?: RegExp; // URL reached once the IdP sends us back to ScholarVox
+};
+
+export const DEFAULT_INSTITUTION = "cesi";
+
+const providers = new Map<string, LoginProvider>();
+
+export function registerLoginProvider(provider: LoginProvider): void {
+  providers.set(provider.id.toLowerCase(), provider);
+}
+
+export function getLoginProvider(id: string): LoginProvider | null {
+  return providers.get(id.toLowerCase()) ?? null;
+}
+
+export function listLoginProviders(): LoginProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Where the provider's SSO flow starts
+ */
+export function providerEntryUrl(provider: LoginProvider): string {
+  return (
+    provider.entryUrl ?? endpointUrl("samlEntry", { institution: provider.id })
+  );
+}
+
+/**
+ * URL pattern that marks a successful login: by default, any page on the
+ * configured ScholarVox cookie domain
+ */
+export function providerSuccessUrl(provider: LoginProvider): RegExp {
+  return provider.successUrl ?? scholarVoxUrlPattern();
+}
+
+registerLoginProvider({
+  id: "cesi",
+  name: "CESI",
+  selectors: {
+    email:
+      'input[type="email"], input[name="email"], input[name="login"], input[name="username"], input[id*="email"], input[id*="user"], input[placeholder*="mail"], input[placeholder*="user"]',
+    password: 'input[type="password"]',
+    submit: 'button[type="submit"], input[type="submit"]',
+  },
+});
@@ -0,0 +1,64 @@
+/**
+ * Page range expressions for partial downloads, e.g. "1-20,45,100-".
+ * Pages are 1-indexed, like the ScholarVox reader URLs.
+ */
+
+export type PageSpan = {
+  from: number;
+  to?: number; // undefined = open-ended ("100-" means 100 to the last page)
+};
+
+/**
+ * Parse a range expression without knowing the book length yet, so that
+ * syntax errors are reported before a browser is launched.
+ */
+export function parsePageSpec(expr: string): PageSpan[] {
+  const parts = expr
+    .split(",")
+    .map(p => p.trim())
+    .filter(p => p.length > 0);
+
+  if (parts.length === 0) {
+    throw new Error(`Empty page range "${expr}".`);
+  }
+
+  return parts.map(part => {
+    const m = part.match(/^(\d*)\s*(-)?\s*(\d*)$/);
+    if (!m || (!m[1] && !m[3])) {
+      throw new Error(
+        `Invalid page range "${part}". Use expressions like 1-20,45,100-`
+      );
+    }
+
+    const from = m[1] ? parseInt(m[1], 10) : 1;
+    const to = m[2] ? (m[3] ? parseInt(m[3], 10) : undefined) : from;
+
+    if (from < 1 || (to !== undefined && to < from)) {
+      throw new Error(`Invalid page range "${part}".`);
+    }
+    return { from, to };
+  });
+}
+
+/**
+ * Expand spans against the real page count into a sorted, de-duplicated list
+ * of page numbers. Throws if a span starts past the end of the book.
+ */
+export function resolvePageSpec(
+  spans: PageSpan[],
+  totalPages: number
+): number[] {
+  const pages = new Set<number>();
+
+  for (const span of spans) {
+    if (span.from > totalPages) {
+      throw new Error(
+        `Page ${span.from} is out of range: the book has ${totalPages} pages.`
+      );
+    }
+    const to = Math.min(span.to ?? totalPages, totalPages);
+    for (let p = span.from; p <= to; p++) pages.add(p);
+  }
+
+  return [...pages].sort((a, b) => a - b);
+}
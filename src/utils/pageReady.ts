@@ -0,0 +1,166 @@
+import type { Page, Request } from "playwright";
+import { getConfig } from "./config.js";
+
+/**
+ * Event-driven readiness of the reader instead of fixed sleeps: a page (or
+ * the whole document) is ready once its images are decoded, no font face is
+ * loading, the tab's network has been quiet and the DOM has stopped changing
+ * for a short settle time. Fast connections move on as soon as that happens;
+ * slow ones get up to the overall timeout.
+ */
+
+export type ReadyOptions = {
+  settle?: number; // ms without requests or DOM changes (default: config)
+  timeout?: number; // overall ms (default: config)
+};
+
+// How often readiness is probed
+const POLL_INTERVAL = 50;
+// Requests open for longer than this (long polling, analytics beacons) do
+// not keep the network busy
+const LONG_REQUEST = 5000;
+
+export type NetworkActivity = {
+  inflight: Map<Request, number>; // request -> start time
+  lastActivity: number;
+};
+
+const networks = new WeakMap<Page, NetworkActivity>();
+
+/**
+ * Start tracking the requests of `page`. Call it before navigating, so that
+ * requests started by the navigation count; waitForReady() starts it
+ * otherwise.
+ */
+export function trackNetwork(page: Page): NetworkActivity {
+  const tracked = networks.get(page);
+  if (tracked) return tracked;
+
+  const net: NetworkActivity = {
+    inflight: new Map(),
+    lastActivity: Date.now(),
+  };
+  const done = (request: Request) => {
+    net.inflight.delete(request);
+    net.lastActivity = Date.now();
+  };
+  page.on("request", request => {
+    net.inflight.set(request, Date.now());
+    net.lastActivity = Date.now();
+  });
+  page.on("requestfinished", done);
+  page.on("requestfailed", done);
+  networks.set(page, net);
+  return net;
+}
+
+function networkQuietFor(net: NetworkActivity): number {
+  const now = Date.now();
+  for (const started of net.inflight.values()) {
+    if (now - started < LONG_REQUEST) return 0;
+  }
+  return now - net.lastActivity;
+}
+
+type ReadyProbe = {
+  found: boolean;
+  quietFor: number; // ms since the last DOM change in the element
+  pendingImages: number; // not loaded or not decoded yet
+  fontsLoading: boolean;
+};
+
+/**
+ * Look at one child of #page-container (1-indexed), or at the whole body
+ * when `pageNumber` is null. The first probe of an element starts watching
+ * it for DOM changes.
+ */
+async function probe(
+  page: Page,
+  pageNumber: number | null
+): Promise<ReadyProbe> {
+  return page.evaluate(
+    pageIdx => {
+      const el =
+        pageIdx === null
+          ? document.body
+          : document.getElementById("page-container")?.children[pageIdx];
+      const fontsLoading = document.fonts.status === "loading";
+      if (!el)
+        return { found: false, quietFor: 0, pendingImages: 0, fontsLoading };
+
+      // Last DOM change per watched element
+      const w = window as typeof window & {
+        __voxfetchChanges?: WeakMap<Element, number>;
+      };
+      const changes = (w.__voxfetchChanges ??= new WeakMap());
+      if (!changes.has(el)) {
+        changes.set(el, performance.now());
+        new MutationObserver(() => changes.set(el, performance.now())).observe(
+          el,
+          {
+            childList: true,
+            subtree: true,
+            attributes: true,
+            characterData: true,
+          }
+        );
+      }
+
+      // Decoding starts once an image is loaded; broken images count as done
+      // (the page check reports them)
+      let pendingImages = 0;
+      el.querySelectorAll("img").forEach(img => {
+        if (img.dataset.voxfetchDecoded) return;
+        pendingImages++;
+        if (!img.complete || img.dataset.voxfetchDecoding) return;
+        img.dataset.voxfetchDecoding = "1";
+        img
+          .decode()
+          .catch(() => {})
+          .finally(() => {
+            img.dataset.voxfetchDecoded = "1";
+          });
+      });
+
+      return {
+        found: true,
+        quietFor: performance.now() - changes.get(el)!,
+        pendingImages,
+        fontsLoading,
+      };
+    },
+    pageNumber === null ? null : pageNumber - 1
+  );
+}
+
+/**
+ * Wait until a page of #page-container (1-indexed), or the whole document
+ * when `pageNumber` is null, is ready to print. Resolves to false when the
+ * timeout is reached first: the caller carries on, and pages that did not
+ * render are caught by the page check.
+ */
+export async function waitForReady(
+  page: Page,
+  pageNumber: number | null,
+  opts: ReadyOptions = {}
+): Promise<boolean> {
+  const { render, timeouts } = getConfig();
+  const settle = opts.settle ?? render.settleTime;
+  const deadline = Date.now() + (opts.timeout ?? timeouts.pageReady);
+  const net = trackNetwork(page);
+
+  while (Date.now() < deadline) {
+    const state = await probe(page, pageNumber);
+    if (!state.found) return false;
+    if (
+      state.pendingImages === 0 &&
+      !state.fontsLoading &&
+      state.quietFor >= settle &&
+      networkQuietFor(net) >= settle
+    ) {
+      return true;
+    }
+    await page.waitForTimeout(POLL_INTERVAL);
+  }
+  return false;
+}
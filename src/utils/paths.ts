@@ -0,0 +1,10 @@
+import path from "node:path";
+
+/**
+ * Local state directory (git-ignored): checkpoints, saved sessions, ...
+ */
+export const STATE_DIR = ".voxfetch-cesi";
+
+export function statePath(...segments: string[]): string {
+  return path.join(STATE_DIR, ...segments);
+}
@@ -0,0 +1,162 @@
+/**
+ * Write book metadata into a generated PDF: document info dictionary, an XMP
+ * packet, and custom fields tracing the file back to its ScholarVox book.
+ */
+
+import {
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFString,
+} from "pdf-lib";
+import type { BookMetadata } from "../helpers/bookMeta.js";
+import { stripAccents } from "./text.js";
+
+const PRODUCER = "VoxFetch-CESI";
+
+// ScholarVox shows the language as a French word; PDF wants a language tag
+const LANGUAGE_TAGS: Record<string, string> = {
+  francais: "fr",
+  french: "fr",
+  anglais: "en",
+  english: "en",
+  espagnol: "es",
+  allemand: "de",
+  italien: "it",
+  portugais: "pt",
+};
+
+function languageTag(language: string | null): string | null {
+  if (!language) return null;
+  const key = stripAccents(language).toLowerCase().trim();
+  return LANGUAGE_TAGS[key] ?? null;
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function keywordsFor(meta: BookMetadata): string[] {
+  return [
+    meta.collection,
+    meta.publisher,
+    meta.year !== null ? String(meta.year) : null,
+    ...meta.isbns.map(isbn => `ISBN ${isbn}`),
+  ].filter((k): k is string => !!k);
+}
+
+function buildXmpPacket(meta: BookMetadata, created: Date): string {
+  const date = created.toISOString();
+  const lang = languageTag(meta.language) ?? "x-default";
+  const title = [meta.title, meta.subtitle].filter(Boolean).join(" : ");
+  const seq = (items: string[]) =>
+    `<rdf:Seq>${items.map(i => `<rdf:li>${xmlEscape(i)}</rdf:li>`).join("")}</rdf:Seq>`;
+  const bag = (items: string[]) =>
+    `<rdf:Bag>${items.map(i => `<rdf:li>${xmlEscape(i)}</rdf:li>`).join("")}</rdf:Bag>`;
+  const alt = (text: string) =>
+    `<rdf:Alt><rdf:li xml:lang="x-default">${xmlEscape(text)}</rdf:li></rdf:Alt>`;
+
+  const fields: string[] = [];
+  if (title) fields.push(`<dc:title>${alt(title)}</dc:title>`);
+  if (meta.authors.length)
+    fields.push(`<dc:creator>${seq(meta.authors)}</dc:creator>`);
+  if (meta.description)
+    fields.push(`<dc:description>${alt(meta.description)}</dc:description>`);
+  if (meta.publisher)
+    fields.push(`<dc:publisher>${bag([meta.publisher])}</dc:publisher>`);
+  if (meta.year !== null)
+    fields.push(`<dc:date>${seq([String(meta.year)])}</dc:date>`);
+  if (lang !== "x-default")
+    fields.push(`<dc:language>${bag([lang])}</dc:language>`);
+  if (meta.isbns.length) {
+    fields.push(
+      `<dc:identifier>${xmlEscape(`urn:isbn:${meta.isbns[0]}`)}</dc:identifier>`
+    );
+    fields.push(`<prism:isbn>${xmlEscape(meta.isbns[0])}</prism:isbn>`);
+  }
+  if (meta.collection)
+    fields.push(
+      `<prism:seriesTitle>${xmlEscape(meta.collection)}</prism:seriesTitle>`
+    );
+  const keywords = keywordsFor(meta);
+  if (keywords.length)
+    fields.push(
+      `<pdf:Keywords>${xmlEscape(keywords.join(", "))}</pdf:Keywords>`
+    );
+  fields.push(`<dc:source>${xmlEscape(meta.catalogUrl)}</dc:source>`);
+  fields.push(`<pdf:Producer>${PRODUCER}</pdf:Producer>`);
+  fields.push(`<xmp:CreatorTool>${PRODUCER}</xmp:CreatorTool>`);
+  fields.push(`<xmp:CreateDate>${date}</xmp:CreateDate>`);
+  fields.push(`<xmp:ModifyDate>${date}</xmp:ModifyDate>`);
+  fields.push(`<xmp:MetadataDate>${date}</xmp:MetadataDate>`);
+  fields.push(`<voxfetch:DocId>${xmlEscape(meta.docid)}</voxfetch:DocId>`);
+  fields.push(
+    `<voxfetch:SourceUrl>${xmlEscape(meta.catalogUrl)}</voxfetch:SourceUrl>`
+  );
+
+  return [
+    `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>`,
+    `<x:xmpmeta xmlns:x="adobe:ns:meta/">`,
+    `<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">`,
+    `<rdf:Description rdf:about=""`,
+    ` xmlns:dc="http://purl.org/dc/elements/1.1/"`,
+    ` xmlns:xmp="http://ns.adobe.com/xap/1.0/"`,
+    ` xmlns:pdf="http://ns.adobe.com/pdf/1.3/"`,
+    ` xmlns:prism="http://prismstandard.org/namespaces/basic/2.0/"`,
+    ` xmlns:voxfetch="https://github.com/0n3m0r3/VoxFetch-CESI/ns/1.0/">`,
+    ...fields,
+    `</rdf:Description>`,
+    `</rdf:RDF>`,
+    `</x:xmpmeta>`,
+    `<?xpacket end="w"?>`,
+  ].join("\n");
+}
+
+/**
+ * Set the document info, XMP metadata and source fields of `pdf` from the
+ * book's catalog metadata.
+ */
+export function embedBookMetadata(
+  pdf: PDFDocument,
+  meta: BookMetadata,
+  created: Date = new Date()
+): void {
+  if (meta.title) {
+    pdf.setTitle(
+      meta.subtitle ? `${meta.title} : ${meta.subtitle}` : meta.title,
+      { showInWindowTitleBar: true }
+    );
+  }
+  if (meta.authors.length) pdf.setAuthor(meta.authors.join(", "));
+  const subject = meta.description ?? meta.subtitle;
+  if (subject) pdf.setSubject(subject);
+  const keywords = keywordsFor(meta);
+  if (keywords.length) pdf.setKeywords(keywords);
+  const lang = languageTag(meta.language);
+  if (lang) pdf.setLanguage(lang);
+  pdf.setProducer(PRODUCER);
+  pdf.setCreator(PRODUCER);
+  pdf.setCreationDate(created);
+  pdf.setModificationDate(created);
+
+  // Custom info entries so a file can be traced back to its book
+  const info = pdf.context.lookup(pdf.context.trailerInfo.Info, PDFDict);
+  info.set(PDFName.of("VoxFetchDocId"), PDFString.of(meta.docid));
+  info.set(
+    PDFName.of("VoxFetchSource"),
+    PDFHexString.fromText(meta.catalogUrl)
+  );
+
+  // XMP packet, stored uncompressed as required for catalog metadata
+  const xmp = new TextEncoder().encode(buildXmpPacket(meta, created));
+  const stream = pdf.context.stream(xmp, {
+    Type: "Metadata",
+    Subtype: "XML",
+  });
+  pdf.catalog.set(PDFName.of("Metadata"), pdf.context.register(stream));
+}
@@ -0,0 +1,109 @@
+/**
+ * Write a table of contents into a PDF as a nested outline (bookmarks).
+ * pdf-lib has no outline API, so the outline dictionaries are built by hand.
+ */
+
+import {
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  PDFNumber,
+  type PDFRef,
+} from "pdf-lib";
+import type { TocEntry } from "../helpers/tableOfContents.js";
+
+type OutlineNode = {
+  title: string;
+  pageIndex: number; // 0-indexed page of the output PDF
+  children: OutlineNode[];
+};
+
+/**
+ * Map TOC entries onto output pages. Entries whose target page is not in the
+ * PDF (e.g. excluded by --pages) are dropped and their children promoted.
+ */
+function toOutlineNodes(
+  entries: TocEntry[],
+  pageIndexOf: (bookPage: number) => number | null
+): OutlineNode[] {
+  const nodes: OutlineNode[] = [];
+  for (const entry of entries) {
+    const children = toOutlineNodes(entry.children, pageIndexOf);
+    const pageIndex = entry.page !== null ? pageIndexOf(entry.page) : null;
+    if (pageIndex === null) {
+      nodes.push(...children);
+    } else {
+      nodes.push({ title: entry.title, pageIndex, children });
+    }
+  }
+  return nodes;
+}
+
+function countDescendants(nodes: OutlineNode[]): number {
+  return nodes.reduce((n, node) => n + 1 + countDescendants(node.children), 0);
+}
+
+/**
+ * Add `entries` as the document outline of `pdf`. `pageIndexOf` maps a book
+ * page (1-indexed) to the 0-indexed output page, or null if it is absent.
+ * Returns the number of bookmarks written.
+ */
+export function addOutline(
+  pdf: PDFDocument,
+  entries: TocEntry[],
+  pageIndexOf: (bookPage: number) => number | null
+): number {
+  const nodes = toOutlineNodes(entries, pageIndexOf);
+  if (nodes.length === 0) return 0;
+
+  const { context } = pdf;
+  const pageRefs = pdf.getPages().map(p => p.ref);
+  const rootRef = context.nextRef();
+
+  const writeLevel = (level: OutlineNode[], parentRef: PDFRef) => {
+    const refs = level.map(() => context.nextRef());
+    level.forEach((node, i) => {
+      const dict = context.obj({
+        Title: PDFHexString.fromText(node.title),
+        Parent: parentRef,
+        Dest: [
+          pageRefs[node.pageIndex],
+          PDFName.of("XYZ"),
+          PDFNull,
+          PDFNull,
+          PDFNull,
+        ],
+      });
+      if (i > 0) dict.set(PDFName.of("Prev"), refs[i - 1]);
+      if (i < level.length - 1) dict.set(PDFName.of("Next"), refs[i + 1]);
+      if (node.children.length > 0) {
+        const [first, last] = writeLevel(node.children, refs[i]);
+        dict.set(PDFName.of("First"), first);
+        dict.set(PDFName.of("Last"), last);
+        // Negative count: the entry starts collapsed
+        dict.set(
+          PDFName.of("Count"),
+          PDFNumber.of(-countDescendants(node.children))
+        );
+      }
+      context.assign(refs[i], dict);
+    });
+    return [refs[0], refs[refs.length - 1]] as const;
+  };
+
+  const [first, last] = writeLevel(nodes, rootRef);
+  context.assign(
+    rootRef,
+    context.obj({
+      Type: "Outlines",
+      First: first,
+      Last: last,
+      Count: nodes.length,
+    })
+  );
+
+  pdf.catalog.set(PDFName.of("Outlines"), rootRef);
+  pdf.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+  return countDescendants(nodes);
+}
@@ -0,0 +1,181 @@
+/**
+ * Write a PDF to disk page by page. pdf-lib only saves a whole document
+ * from memory, so pages are copied a chunk at a time into a scratch context
+ * whose objects (content streams, images, fonts) go straight to the file.
+ * Only the page dictionaries (a few hundred bytes each) and the
+ * document-level objects (catalog, outline, metadata) stay in memory until
+ * close().
+ */
+
+import fs, { type FileHandle } from "node:fs/promises";
+import {
+  PDFArray,
+  PDFContext,
+  PDFCrossRefSection,
+  PDFDict,
+  PDFDocument,
+  PDFHeader,
+  PDFName,
+  PDFObjectCopier,
+  PDFPageLeaf,
+  PDFRef,
+  PDFTrailer,
+  PDFTrailerDict,
+  type PDFObject,
+} from "pdf-lib";
+
+/**
+ * Copy of `obj` whose nested dictionaries and arrays belong to `context`, so
+ * that keeping it does not keep the context it came from alive
+ */
+function rehome(obj: PDFObject, context: PDFContext): PDFObject {
+  if (obj instanceof PDFDict) {
+    const dict =
+      obj instanceof PDFPageLeaf
+        ? PDFPageLeaf.fromMapWithContext(new Map(), context)
+        : context.obj({});
+    for (const [key, value] of obj.entries()) {
+      dict.set(key, rehome(value, context));
+    }
+    return dict;
+  }
+  if (obj instanceof PDFArray) {
+    const array = context.obj([]);
+    for (let i = 0; i < obj.size(); i++)
+      array.push(rehome(obj.get(i), context));
+    return array;
+  }
+  return obj;
+}
+
+type Serializable = {
+  sizeInBytes(): number;
+  copyBytesInto(buffer: Uint8Array, offset: number): number;
+};
+
+const encoder = new TextEncoder();
+
+function serialize(obj: Serializable): Uint8Array {
+  const bytes = new Uint8Array(obj.sizeInBytes());
+  obj.copyBytesInto(bytes, 0);
+  return bytes;
+}
+
+export class PdfStreamWriter {
+  /**
+   * The document being written: its pages are only page dictionaries, but
+   * it takes an outline and metadata like any other PDFDocument
+   */
+  readonly doc: PDFDocument;
+  private readonly offsets = new Map<number, number>();
+  private position = 0;
+
+  private constructor(
+    private readonly file: string,
+    private readonly handle: FileHandle,
+    doc: PDFDocument
+  ) {
+    this.doc = doc;
+  }
+
+  /**
+   * Start writing `file`. The PDF goes to `file`.part until close().
+   */
+  static async open(file: string): Promise<PdfStreamWriter> {
+    const handle = await fs.open(`${file}.part`, "w");
+    const writer = new PdfStreamWriter(
+      file,
+      handle,
+      await PDFDocument.create()
+    );
+    await writer.write(serialize(PDFHeader.forVersion(1, 7)));
+    await writer.write(encoder.encode("\n\n"));
+    return writer;
+  }
+
+  private async write(bytes: Uint8Array): Promise<void> {
+    await this.handle.write(bytes);
+    this.position += bytes.length;
+  }
+
+  private async writeObject(ref: PDFRef, obj: PDFObject): Promise<void> {
+    this.offsets.set(ref.objectNumber, this.position);
+    await this.write(encoder.encode(`${ref.objectNumber} 0 obj\n`));
+    await this.write(serialize(obj));
+    await this.write(encoder.encode("\nendobj\n\n"));
+  }
+
+  /**
+   * Append the pages at `indices` (0-indexed) of `src`. Once this resolves,
+   * `src` can be dropped.
+   */
+  async appendPages(src: PDFDocument, indices: number[]): Promise<void> {
+    const { context } = this.doc;
+    const scratch = PDFContext.create();
+    scratch.largestObjectNumber = context.largestObjectNumber;
+
+    // The copier also resolves what the page inherits from its page tree
+    const copier = PDFObjectCopier.for(src.context, scratch);
+    const pages = src.getPages();
+    const leafRefs = indices.map(i =>
+      scratch.register(copier.copy(pages[i].node))
+    );
+    context.largestObjectNumber = scratch.largestObjectNumber;
+
+    const leaves = new Set(leafRefs);
+    for (const [ref, obj] of scratch.enumerateIndirectObjects()) {
+      if (!leaves.has(ref)) await this.writeObject(ref, obj);
+    }
+
+    const tree = this.doc.catalog.Pages();
+    const treeRef = this.doc.catalog.get(PDFName.of("Pages")) as PDFRef;
+    for (const ref of leafRefs) {
+      const leaf = rehome(scratch.lookup(ref)!, context) as PDFPageLeaf;
+      leaf.setParent(treeRef);
+      context.assign(ref, leaf);
+      tree.pushLeafNode(ref);
+    }
+  }
+
+  /**
+   * Write the document-level objects and the cross-reference table, then
+   * move the file into place
+   */
+  async close(): Promise<void> {
+    const { context } = this.doc;
+    for (const [ref, obj] of context.enumerateIndirectObjects()) {
+      await this.writeObject(ref, obj);
+    }
+
+    const xref = PDFCrossRefSection.create();
+    const numbers = [...this.offsets.keys()].sort((a, b) => a - b);
+    for (const n of numbers) xref.addEntry(PDFRef.of(n), this.offsets.get(n)!);
+    const xrefOffset = this.position;
+    await this.write(serialize(xref));
+
+    const trailerDict = PDFTrailerDict.of(
+      context.obj({
+        Size: context.largestObjectNumber + 1,
+        Root: context.trailerInfo.Root,
+        Info: context.trailerInfo.Info,
+      })
+    );
+    await this.write(encoder.encode("\n"));
+    await this.write(serialize(trailerDict));
+    await this.write(encoder.encode("\n\n"));
+    await this.write(
+      serialize(PDFTrailer.forLastCrossRefSectionOffset(xrefOffset))
+    );
+
+    await this.handle.close();
+    await fs.rename(`${this.file}.part`, this.file);
+  }
+
+  /**
+   * Stop writing and delete the partial file
+   */
+  async discard(): Promise<void> {
+    await this.handle.close().catch(() => {});
+    await fs.rm(`${this.file}.part`, { force: true });
+  }
+}
@@ -1,4 +1,254 @@
 import { Page } from "playwright";
+import { AUTH_WALL_TEXT, hasAuthWall } from "../helpers/authDetection.js";
+import type { PageArea } from "./chunkSize.js";
+import { trackNetwork, waitForReady } from "./pageReady.js";
+
+/**
+ * Hide every child of #page-container except the given pages (1-indexed),
+ * plus the reader sidebar, so that printing only outputs those pages.
+ */
+export async function showOnlyPages(
+  page: Page,
+  pageNumbers: number[]
+): Promise<void> {
+  await page.evaluate(targetPages => {
+    const container = document.getElementById("page-container");
+    if (!container) return;
+
+    const keep = new Set(targetPages.map(p => p - 1));
+    const children = Array.from(container.children);
+
+    children.forEach((child, index) => {
+      const el = child as HTMLElement;
+      if (keep.has(index)) {
+        el.style.display = "block";
+        el.style.visibility = "visible";
+      } else {
+        el.style.display = "none";
+      }
+    });
+
+    // Hide sidebar
+    const sidebar = document.getElementById("sidebar");
+    if (sidebar) sidebar.style.display = "none";
+  }, pageNumbers);
+}
+
+/**
+ * Undo showOnlyPages: make every page of #page-container visible again so
+ * that it can be scrolled to and lazy-loaded.
+ */
+export async function showAllPages(page: Page): Promise<void> {
+  await page.evaluate(() => {
+    const container = document.getElementById("page-container");
+    if (!container) return;
+    for (const child of Array.from(container.children)) {
+      (child as HTMLElement).style.display = "";
+    }
+  });
+}
+
+/**
+ * Wait until every font of the document is loaded. ScholarVox uses custom
+ * WOFF fonts with special character mappings; text printed before they are
+ * applied comes out garbled.
+ */
+export async function waitForFonts(page: Page): Promise<void> {
+  // Use a string to avoid transform wrappers in the browser context
+  await page.evaluate(`(async () => {
+    const fonts = Array.from(document.fonts);
+    await Promise.all(fonts.map(f => f.load().catch(() => {})));
+    await document.fonts.ready;
+  })()`);
+}
+
+/**
+ * Reset zoom and remove the overflow, size and clip-path constraints of the
+ * reader, which would otherwise clip the printed pages
+ */
+export async function removePrintClipping(page: Page): Promise<void> {
+  await page.evaluate(() => {
+    // Don't modify transforms - leave them as they are!
+    // Just reset zoom
+    (document.body as HTMLElement).style.zoom = "1";
+    (document.documentElement as HTMLElement).style.zoom = "1";
+
+    // Remove all overflow/clipping constraints
+    document.body.style.overflow = "visible";
+    document.body.style.overflowX = "visible";
+    document.body.style.overflowY = "visible";
+    document.documentElement.style.overflow = "visible";
+
+    // Remove width/height constraints
+    document.body.style.width = "auto";
+    document.body.style.height = "auto";
+    document.body.style.maxWidth = "none";
+    document.body.style.maxHeight = "none";
+    document.body.style.minWidth = "0";
+    document.body.style.minHeight = "0";
+
+    // Check for any container divs that might be clipping
+    const allDivs = document.querySelectorAll("div");
+    allDivs.forEach(div => {
+      const computedStyle = window.getComputedStyle(div);
+      if (computedStyle.overflow !== "visible") {
+        (div as HTMLElement).style.overflow = "visible";
+        (div as HTMLElement).style.overflowX = "visible";
+        (div as HTMLElement).style.overflowY = "visible";
+      }
+      // Remove fixed dimensions that might clip content
+      if (computedStyle.maxWidth !== "none" && computedStyle.maxWidth !== "") {
+        (div as HTMLElement).style.maxWidth = "none";
+      }
+      if (
+        computedStyle.maxHeight !== "none" &&
+        computedStyle.maxHeight !== ""
+      ) {
+        (div as HTMLElement).style.maxHeight = "none";
+      }
+      // Remove clip-path
+      if (computedStyle.clipPath !== "none") {
+        (div as HTMLElement).style.clipPath = "none";
+      }
+    });
+
+    // Handle canvas elements - expand their dimensions
+    const canvases = document.querySelectorAll("canvas");
+    canvases.forEach(canvas => {
+      canvas.style.maxWidth = "none";
+      canvas.style.maxHeight = "none";
+    });
+
+    // Handle SVG elements - expand their viewBox if needed
+    const svgs = document.querySelectorAll("svg");
+    svgs.forEach(svg => {
+      (svg as SVGElement).style.maxWidth = "none";
+      (svg as SVGElement).style.maxHeight = "none";
+      (svg as SVGElement).style.overflow = "visible";
+    });
+  });
+}
+
+export type PageBox = {
+  width: number; // px: natural size of the page image, else its CSS size
+  height: number;
+  displayWidth: number; // px: size as laid out in the reader (zoom included)
+  displayHeight: number;
+};
+
+/**
+ * Measure one child of #page-container (1-indexed) on its own. Returns null
+ * if the page does not exist or is not laid out (e.g. hidden).
+ */
+export async function measurePage(
+  page: Page,
+  pageNumber: number
+): Promise<PageBox | null> {
+  return page.evaluate(pageIdx => {
+    const container = document.getElementById("page-container");
+    const el = container?.children[pageIdx] as HTMLElement | undefined;
+    if (!el) return null;
+
+    const rect = el.getBoundingClientRect();
+    if (rect.width < 1 || rect.height < 1) return null;
+
+    // The largest image of the page is its scan/background
+    let width = el.offsetWidth || rect.width;
+    let height = el.offsetHeight || rect.height;
+    let maxArea = 0;
+    el.querySelectorAll("img").forEach(img => {
+      const area = img.naturalWidth * img.naturalHeight;
+      if (area > maxArea) {
+        maxArea = area;
+        width = img.naturalWidth;
+        height = img.naturalHeight;
+      }
+    });
+
+    return {
+      width,
+      height,
+      displayWidth: rect.width,
+      displayHeight: rect.height,
+    };
+  }, pageNumber - 1);
+}
+
+/**
+ * Layout size of the largest child of #page-container, lazy-loaded or not.
+ * Returns null if the reader shows no pages.
+ */
+export async function largestPageArea(page: Page): Promise<PageArea | null> {
+  return page.evaluate(() => {
+    const container = document.getElementById("page-container");
+    let largest: { width: number; height: number } | null = null;
+    for (const child of Array.from(container?.children ?? [])) {
+      const el = child as HTMLElement;
+      const width = el.offsetWidth;
+      const height = el.offsetHeight;
+      if (!largest || width * height > largest.width * largest.height) {
+        largest = { width, height };
+      }
+    }
+    return largest && largest.width * largest.height > 0 ? largest : null;
+  });
+}
+
+/**
+ * Print a single page of #page-container (1-indexed) at its own size: every
+ * other page is hidden, the page is pinned to the top-left corner of the
+ * print area and the PDF page gets the page's own dimensions, so that
+ * landscape foldouts and inserts keep their aspect ratio. The page must
+ * already be loaded (scrolled to) and its fonts ready.
+ */
+export async function printIsolatedPage(
+  page: Page,
+  pageNumber: number
+): Promise<Uint8Array> {
+  await showOnlyPages(page, [pageNumber]);
+  await removePrintClipping(page);
+
+  // Pin the page where the printed sheet starts; restored below
+  const saved = await page.evaluate(pageIdx => {
+    const container = document.getElementById("page-container")!;
+    const el = container.children[pageIdx] as HTMLElement;
+    const cssText = el.style.cssText;
+    Object.assign(el.style, {
+      position: "fixed",
+      left: "0",
+      top: "0",
+      margin: "0",
+      transformOrigin: "top left",
+    });
+    return cssText;
+  }, pageNumber - 1);
+
+  try {
+    const box = await measurePage(page, pageNumber);
+    if (!box) throw new Error(`Page ${pageNumber} is not laid out.`);
+
+    // Print layout width = displayWidth, so the page fills the sheet exactly
+    const scale = Math.min(2, Math.max(0.1, box.width / box.displayWidth));
+    return await page.pdf({
+      width: `${box.width / 96}in`,
+      height: `${box.height / 96}in`,
+      printBackground: true,
+      margin: { top: "0mm", right: "0mm", bottom: "0mm", left: "0mm" },
+      scale,
+      pageRanges: "1",
+      preferCSSPageSize: false,
+    });
+  } finally {
+    await page.evaluate(
+      ([pageIdx, cssText]) => {
+        const container = document.getElementById("page-container");
+        const el = container?.children[pageIdx] as HTMLElement | undefined;
+        if (el) el.style.cssText = cssText;
+      },
+      [pageNumber - 1, saved] as const
+    );
+  }
+}
 
 /**
  * Print ScholarVox page to PDF using browser's native print function
@@ -30,12 +280,7 @@ export async function printScholarVoxPageToPDF(
     const iframePage = await context.newPage();
 
     try {
-      // --- IMPORTANT: shim for SWC/TSX helper leaking into evaluate() ---
-      await iframePage.addInitScript(() => {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (window as any).__name = (f: any) => f;
-      });
-      // -------------------------------------------------------------------
+      trackNetwork(iframePage);
 
       // Set viewport size that balances content capture and layout
       await iframePage.setViewportSize({
@@ -68,45 +313,16 @@ export async function printScholarVoxPageToPDF(
         }, pageNumber);
 
         // Wait for lazy-loaded content
-        await iframePage.waitForTimeout(3000);
+        await waitForReady(iframePage, pageNumber);
 
         // Hide all pages except the target one
-        await iframePage.evaluate(targetPage => {
-          const container = document.getElementById("page-container");
-          if (!container) return;
-
-          const children = Array.from(container.children);
-          const targetIndex = targetPage - 1;
-
-          // Hide all pages except the target
-          children.forEach((child, index) => {
-            const el = child as HTMLElement;
-            if (index === targetIndex) {
-              el.style.display = "block";
-              el.style.visibility = "visible";
-            } else {
-              el.style.display = "none";
-            }
-          });
-
-          // Hide sidebar
-          const sidebar = document.getElementById("sidebar");
-          if (sidebar) sidebar.style.display = "none";
-        }, pageNumber);
-
-        await iframePage.waitForTimeout(500);
+        await showOnlyPages(iframePage, [pageNumber]);
       }
 
       // Wait for fonts to load - ScholarVox uses custom WOFF fonts with special character mappings
       // These fonts need time to download and be applied to the DOM
       console.log("   ⏳ Waiting for custom fonts to load...");
-
-      // Use a string to avoid transform wrappers in the browser context
-      await iframePage.evaluate(`(async () => {
-        const fonts = Array.from(document.fonts);
-        await Promise.all(fonts.map(f => f.load().catch(() => {})));
-        await document.fonts.ready;
-      })()`);
+      await waitForFonts(iframePage);
 
       // Log font information for debugging
       const fontInfo = await iframePage.evaluate(() => {
@@ -134,8 +350,8 @@ export async function printScholarVoxPageToPDF(
         );
       }
 
-      // Additional wait to ensure font rendering is complete
-      await iframePage.waitForTimeout(2000);
+      // Wait until text set in the fonts is laid out again
+      await waitForReady(iframePage, pageNumber ?? null);
 
       // ---- Lazy render fix ----
       const renderInfo = await iframePage.evaluate(async () => {
@@ -304,86 +520,15 @@ export async function printScholarVoxPageToPDF(
       // ---- End lazy render fix ----
 
       // Check for authentication message
-      const authMessage = await iframePage.evaluate(() => {
-        const text = document.body.innerText;
-        return text.includes(
-          "Pour consulter cet ouvrage dans son intégralité, veuillez vous authentifier"
-        );
-      });
-
-      if (authMessage) {
+      if (await hasAuthWall(iframePage)) {
         console.log(
           "⚠️  WARNING: Authentication required! Please log in to access the full content."
         );
-        console.log(
-          '   Message detected: "Pour consulter cet ouvrage dans son intégralité, veuillez vous authentifier"'
-        );
+        console.log(`   Message detected: "${AUTH_WALL_TEXT}"`);
       }
 
       // Reset any CSS that might affect printing and remove clipping/overflow constraints
-      await iframePage.evaluate(() => {
-        // Don't modify transforms - leave them as they are!
-        // Just reset zoom
-        (document.body as HTMLElement).style.zoom = "1";
-        (document.documentElement as HTMLElement).style.zoom = "1";
-
-        // Remove all overflow/clipping constraints
-        document.body.style.overflow = "visible";
-        document.body.style.overflowX = "visible";
-        document.body.style.overflowY = "visible";
-        document.documentElement.style.overflow = "visible";
-
-        // Remove width/height constraints
-        document.body.style.width = "auto";
-        document.body.style.height = "auto";
-        document.body.style.maxWidth = "none";
-        document.body.style.maxHeight = "none";
-        document.body.style.minWidth = "0";
-        document.body.style.minHeight = "0";
-
-        // Check for any container divs that might be clipping
-        const allDivs = document.querySelectorAll("div");
-        allDivs.forEach(div => {
-          const computedStyle = window.getComputedStyle(div);
-          if (computedStyle.overflow !== "visible") {
-            (div as HTMLElement).style.overflow = "visible";
-            (div as HTMLElement).style.overflowX = "visible";
-            (div as HTMLElement).style.overflowY = "visible";
-          }
-          // Remove fixed dimensions that might clip content
-          if (
-            computedStyle.maxWidth !== "none" &&
-            computedStyle.maxWidth !== ""
-          ) {
-            (div as HTMLElement).style.maxWidth = "none";
-          }
-          if (
-            computedStyle.maxHeight !== "none" &&
-            computedStyle.maxHeight !== ""
-          ) {
-            (div as HTMLElement).style.maxHeight = "none";
-          }
-          // Remove clip-path
-          if (computedStyle.clipPath !== "none") {
-            (div as HTMLElement).style.clipPath = "none";
-          }
-        });
-
-        // Handle canvas elements - expand their dimensions
-        const canvases = document.querySelectorAll("canvas");
-        canvases.forEach(canvas => {
-          canvas.style.maxWidth = "none";
-          canvas.style.maxHeight = "none";
-        });
-
-        // Handle SVG elements - expand their viewBox if needed
-        const svgs = document.querySelectorAll("svg");
-        svgs.forEach(svg => {
-          (svg as SVGElement).style.maxWidth = "none";
-          (svg as SVGElement).style.maxHeight = "none";
-          (svg as SVGElement).style.overflow = "visible";
-        });
-      });
+      await removePrintClipping(iframePage);
 
       // Detect actual page dimensions from the content
       const pageDimensions = await iframePage.evaluate(() => {
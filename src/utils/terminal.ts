@@ -0,0 +1,89 @@
+/**
+ * Terminal helpers shared by the CLI commands: debug logging, prompts,
+ * progress bar and spinner.
+ */
+
+import readline from "node:readline";
+
+export let DEBUG =
+  process.argv.includes("--debug") || process.argv.includes("-d");
+
+/**
+ * Turn debug logging on (e.g. from the config file's log level)
+ */
+export function setDebug(on: boolean) {
+  DEBUG = on;
+}
+
+export function log(msg: string) {
+  if (DEBUG) console.log(msg);
+}
+
+export function ask(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise(resolve => {
+    rl.question(question, answer => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+export function progressBar(current: number, total: number): string {
+  const pct = Math.round((current / total) * 100);
+  const filled = Math.round((current / total) * 40);
+  const bar = "█".repeat(filled) + "░".repeat(40 - filled);
+  return `   [${bar}] ${pct}% (${current}/${total})`;
+}
+
+function formatDuration(seconds: number): string {
+  const s = Math.round(seconds);
+  if (s < 60) return `${s}s`;
+  if (s < 3600)
+    return `${Math.floor(s / 60)}m${String(s % 60).padStart(2, "0")}s`;
+  return `${Math.floor(s / 3600)}h${String(Math.floor(s / 60) % 60).padStart(2, "0")}m`;
+}
+
+/**
+ * Pages per second since `startedAt` (ms timestamp) and the time left for
+ * the remaining pages, e.g. "1.8 pages/s, ETA 2m05s"
+ */
+export function throughput(
+  done: number,
+  total: number,
+  startedAt: number
+): string {
+  const elapsed = (Date.now() - startedAt) / 1000;
+  if (done === 0 || elapsed <= 0) return "ETA --";
+  const rate = done / elapsed;
+  return `${rate.toFixed(1)} pages/s, ETA ${formatDuration((total - done) / rate)}`;
+}
+
+export class Spinner {
+  private frames = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
+  private frame = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private msg = "";
+
+  start(message: string) {
+    this.msg = message;
+    this.frame = 0;
+    this.timer = setInterval(() => {
+      process.stdout.write(`\r${this.frames[this.frame]} ${this.msg}`);
+      this.frame = (this.frame + 1) % this.frames.length;
+    }, 80);
+  }
+
+  stop(final?: string) {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    process.stdout.write("\r" + " ".repeat(100) + "\r");
+    if (final) process.stdout.write(`${final}\n`);
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Remove diacritics: "Éditeur" -> "Editeur", "français" -> "francais"
+ */
+export function stripAccents(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
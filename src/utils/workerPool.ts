@@ -0,0 +1,89 @@
+/**
+ * A small work queue shared by a fixed set of workers (e.g. browser tabs).
+ * Each worker takes the next item as soon as it is free; an item that fails
+ * goes back to the front of the queue and is preferably retried by a worker
+ * that has not failed on it yet.
+ */
+
+export type PoolOptions<W, T> = {
+  maxAttempts?: number; // per item, default 3
+  // false: stop the pool and rethrow (in-flight items still finish)
+  retryable?: (err: unknown) => boolean;
+  onResult?: (item: number, result: T, worker: W) => void;
+};
+
+type Task = {
+  item: number;
+  attempts: number;
+  failedOn: Set<number>; // worker indexes
+};
+
+/**
+ * Run `work` for every item on `workers`, at most one item per worker at a
+ * time. Resolves once every item succeeded; rejects with the error of an
+ * item that failed `maxAttempts` times or with a non-retryable error.
+ */
+export async function runPool<W, T>(
+  workers: W[],
+  items: number[],
+  work: (worker: W, item: number) => Promise<T>,
+  opts: PoolOptions<W, T> = {}
+): Promise<void> {
+  const { maxAttempts = 3, retryable = () => true, onResult } = opts;
+  const queue: Task[] = items.map(item => ({
+    item,
+    attempts: 0,
+    failedOn: new Set(),
+  }));
+  let busy = 0;
+  let failure: { error: unknown } | null = null;
+
+  // Idle workers wait for a busy one to finish (it may requeue an item)
+  let waiting: Array<() => void> = [];
+  const settled = () => new Promise<void>(resolve => waiting.push(resolve));
+  const wakeAll = () => {
+    const wake = waiting;
+    waiting = [];
+    wake.forEach(resolve => resolve());
+  };
+
+  const next = (index: number): Task | null => {
+    // Every worker stays around while the queue is not empty, so a task is
+    // left to the others until all of them have failed on it
+    const i = queue.findIndex(
+      t => !t.failedOn.has(index) || t.failedOn.size >= workers.length
+    );
+    return i < 0 ? null : queue.splice(i, 1)[0];
+  };
+
+  const run = async (worker: W, index: number) => {
+    while (!failure) {
+      const task = next(index);
+      if (!task) {
+        if (queue.length === 0 && busy === 0) return;
+        await settled();
+        continue;
+      }
+
+      busy++;
+      try {
+        const result = await work(worker, task.item);
+        onResult?.(task.item, result, worker);
+      } catch (error) {
+        task.attempts++;
+        task.failedOn.add(index);
+        if (!retryable(error) || task.attempts >= maxAttempts) {
+          failure ??= { error };
+        } else {
+          queue.unshift(task);
+        }
+      } finally {
+        busy--;
+        wakeAll();
+      }
+    }
+  };
+
+  await Promise.all(workers.map(run));
+  if (failure) throw (failure as { error: unknown }).error;
+}
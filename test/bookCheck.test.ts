@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { checkBookStatus, type BookStatus } from "../src/helpers/bookCheck.js";
+import { BookSession } from "../src/lib/session.js";
+import { startMockScholarVox, type MockScholarVox } from "./mock/server.js";
+import { skipWithoutBrowser, withMockBrowser } from "./helpers.js";
+
+describe("checkBookStatus", { skip: skipWithoutBrowser }, () => {
+  let mock: MockScholarVox;
+  before(async () => {
+    mock = await startMockScholarVox();
+  });
+  after(() => mock.close());
+
+  const cases: Array<[string, BookStatus]> = [
+    ["1001", "FOUND"],
+    ["1002", "REMOVED"], // .removedFlag
+    ["1003", "REMOVED"], // #pnl-notavail
+    ["1004", "AVAILABLE_SOON"],
+    ["9999", "NOT_FOUND"], // HTTP 404
+  ];
+  for (const [docid, expected] of cases) {
+    it(`reports ${expected} for book ${docid}`, async () => {
+      const status = await withMockBrowser(mock, (_, page) =>
+        checkBookStatus(page, docid)
+      );
+      assert.equal(status, expected);
+    });
+  }
+
+  it("reads the metadata from the same catalog load", async () => {
+    const meta = await withMockBrowser(mock, async (context, page) => {
+      const session = new BookSession(context, page, "1001");
+      assert.equal(await session.status(), "FOUND");
+      return session.metadata();
+    });
+    assert.ok(meta);
+    assert.equal(meta.title, "Introduction aux réseaux");
+    assert.deepEqual(meta.authors, ["Jeanne Martin"]);
+    assert.equal(meta.year, 2021);
+    assert.equal(meta.pageCount, 6);
+    assert.deepEqual(meta.isbns, ["9782100808135"]);
+  });
+});
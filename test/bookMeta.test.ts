@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  applyLabeledFields,
+  type BookMetadata,
+} from "../src/helpers/bookMeta.js";
+
+function emptyMeta(): BookMetadata {
+  return {
+    docid: "1001",
+    catalogUrl: "https://univ.scholarvox.com/catalog/book/docid/1001",
+    title: null,
+    subtitle: null,
+    authors: [],
+    publisher: null,
+    year: null,
+    isbns: [],
+    language: null,
+    collection: null,
+    description: null,
+    coverUrl: null,
+    pageCount: null,
+  };
+}
+
+describe("applyLabeledFields", () => {
+  it("fills fields from French and English labels", () => {
+    const meta = emptyMeta();
+    applyLabeledFields(meta, [
+      "Auteur(s) : Jeanne Martin et Éloïse Dupont",
+      "Éditeur : Éditions Test",
+      "Date de parution : mars 2021",
+      "ISBN : 9782100000001",
+      "Language: fr",
+      "Collection : Sciences Sup",
+      "Nombre de pages : 312",
+      "Résumé : Les bases des réseaux.",
+    ]);
+
+    assert.deepEqual(meta.authors, ["Jeanne Martin", "Éloïse Dupont"]);
+    assert.equal(meta.publisher, "Éditions Test");
+    assert.equal(meta.year, 2021);
+    assert.deepEqual(meta.isbns, ["9782100000001"]);
+    assert.equal(meta.language, "fr");
+    assert.equal(meta.collection, "Sciences Sup");
+    assert.equal(meta.pageCount, 312);
+    assert.equal(meta.description, "Les bases des réseaux.");
+  });
+
+  it("keeps the first value of a field but collects every ISBN", () => {
+    const meta = emptyMeta();
+    applyLabeledFields(meta, [
+      "Éditeur : Éditions Test",
+      "Publisher: Other House",
+      "ISBN papier : 978-2-10-000000-1",
+      "ISBN numérique : 9782100000018, 9782100000001",
+    ]);
+
+    assert.equal(meta.publisher, "Éditions Test");
+    assert.deepEqual(meta.isbns, ["9782100000001", "9782100000018"]);
+  });
+
+  it("does not replace values already read from the page", () => {
+    const meta = { ...emptyMeta(), authors: ["Jeanne Martin"], year: 2019 };
+    applyLabeledFields(meta, ["Auteurs : Someone Else", "Année : 2021"]);
+
+    assert.deepEqual(meta.authors, ["Jeanne Martin"]);
+    assert.equal(meta.year, 2019);
+  });
+
+  it("ignores unknown labels and lines without a value", () => {
+    const meta = emptyMeta();
+    applyLabeledFields(meta, [
+      "Format : PDF",
+      "Nombre de pages : environ trois cents",
+      "Pas de libellé ici",
+    ]);
+
+    assert.deepEqual(meta, emptyMeta());
+  });
+});
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { autoChunkSize } from "../src/utils/chunkSize.js";
+
+const limits = { maxPages: 50, maxMegapixels: 200 };
+const a4 = { width: 1080, height: 1332 };
+
+describe("autoChunkSize", () => {
+  it("evens out chunks up to maxPages", () => {
+    assert.equal(autoChunkSize(10, a4, limits), 10);
+    assert.equal(autoChunkSize(60, a4, limits), 30);
+    assert.equal(autoChunkSize(101, a4, limits), 34);
+  });
+
+  it("prints fewer large pages at once", () => {
+    const large = { width: 2800, height: 3600 };
+    // 200 MP / 10.08 MP per page = 19 pages at most
+    assert.equal(autoChunkSize(1000, large, limits), 19);
+    assert.equal(
+      autoChunkSize(1000, { width: 20000, height: 20000 }, limits),
+      1
+    );
+  });
+
+  it("handles empty books", () => {
+    assert.equal(autoChunkSize(0, a4, limits), 1);
+  });
+});
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import {
+  CONFIG_FILENAME,
+  DEFAULT_CONFIG,
+  expandHome,
+  loadConfig,
+} from "../src/utils/config.js";
+import { configureEndpoints, getEndpoints } from "../src/utils/endpoints.js";
+import { inTempDir } from "./helpers.js";
+
+async function writeJson(file: string, value: unknown) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(value));
+}
+
+describe("loadConfig", () => {
+  const xdg = process.env.XDG_CONFIG_HOME;
+  afterEach(() => {
+    if (xdg === undefined) delete process.env.XDG_CONFIG_HOME;
+    else process.env.XDG_CONFIG_HOME = xdg;
+    configureEndpoints({});
+  });
+
+  it("uses the defaults without config files", async () => {
+    await inTempDir(async dir => {
+      process.env.XDG_CONFIG_HOME = path.join(dir, "xdg");
+      assert.deepEqual(await loadConfig(), DEFAULT_CONFIG);
+    });
+  });
+
+  it("merges the project file over the user file", async () => {
+    await inTempDir(async dir => {
+      process.env.XDG_CONFIG_HOME = path.join(dir, "xdg");
+      await writeJson(path.join(dir, "xdg", "voxfetch", CONFIG_FILENAME), {
+        outputDir: "~/Books",
+        render: { chunkSize: 20, settleTime: 500 },
+      });
+      await writeJson(path.join(dir, CONFIG_FILENAME), {
+        render: { chunkSize: 10 },
+        endpoints: { baseUrl: "http://127.0.0.1:9000" },
+      });
+
+      const config = await loadConfig();
+      assert.equal(config.outputDir, path.join(os.homedir(), "Books"));
+      assert.equal(config.render.chunkSize, 10);
+      assert.equal(config.render.settleTime, 500);
+      assert.equal(config.render.mode, "chunked");
+      assert.equal(getEndpoints().baseUrl, "http://127.0.0.1:9000");
+    });
+  });
+
+  it("expands a leading ~ to the home directory", () => {
+    assert.equal(expandHome("~"), os.homedir());
+    assert.equal(expandHome("~/Books"), path.join(os.homedir(), "Books"));
+    assert.equal(expandHome("output/~draft"), "output/~draft");
+  });
+
+  it("reads render.scrollDelay as render.settleTime", async () => {
+    await inTempDir(async dir => {
+      process.env.XDG_CONFIG_HOME = path.join(dir, "xdg");
+      await writeJson(path.join(dir, CONFIG_FILENAME), {
+        render: { scrollDelay: 400 },
+      });
+      const config = await loadConfig();
+      assert.equal(config.render.settleTime, 400);
+      assert.equal("scrollDelay" in config.render, false);
+    });
+  });
+
+  it("rejects values of the wrong type", async () => {
+    await inTempDir(async dir => {
+      process.env.XDG_CONFIG_HOME = path.join(dir, "xdg");
+      await writeJson(path.join(dir, CONFIG_FILENAME), {
+        timeouts: { iframe: "15s" },
+      });
+      await assert.rejects(loadConfig(), /"timeouts.iframe" must be/);
+    });
+  });
+
+  it("rejects fractional counts and pixel sizes", async () => {
+    await inTempDir(async dir => {
+      process.env.XDG_CONFIG_HOME = path.join(dir, "xdg");
+      for (const [key, value] of [
+        ["render", { concurrency: 2.5 }],
+        ["render", { chunkSize: 12.5 }],
+        ["viewport", { width: 2800.5, height: 2100 }],
+      ] as const) {
+        await writeJson(path.join(dir, CONFIG_FILENAME), { [key]: value });
+        await assert.rejects(loadConfig(), /must be a positive whole number/);
+      }
+
+      // Other numbers may have a fraction
+      await writeJson(path.join(dir, CONFIG_FILENAME), {
+        render: { chunkMegapixels: 150.5, referenceScale: 0.45 },
+      });
+      assert.equal((await loadConfig()).render.referenceScale, 0.45);
+    });
+  });
+});
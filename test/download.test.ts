@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import { after, before, describe, it } from "node:test";
+import { PDFDocument, PDFName } from "pdf-lib";
+import { downloadBook, type DownloadOptions } from "../src/lib/download.js";
+import { BookSession } from "../src/lib/session.js";
+import { parsePageSpec } from "../src/utils/pageRange.js";
+import {
+  MOCK_EMAIL,
+  MOCK_PASSWORD,
+  startMockScholarVox,
+  type MockScholarVox,
+} from "./mock/server.js";
+import { inTempDir, skipWithoutBrowser, withMockBrowser } from "./helpers.js";
+
+const creds = { email: MOCK_EMAIL, password: MOCK_PASSWORD };
+
+describe("downloadBook", { skip: skipWithoutBrowser }, () => {
+  let mock: MockScholarVox;
+  before(async () => {
+    mock = await startMockScholarVox();
+  });
+  after(() => mock.close());
+
+  const download = (docid: string, opts: DownloadOptions = {}) =>
+    withMockBrowser(mock, async (context, page) => {
+      const session = new BookSession(context, page, docid);
+      await downloadBook(session, "output/book.pdf", creds, {
+        interactiveLogin: false,
+        ...opts,
+      });
+      return PDFDocument.load(await fs.readFile("output/book.pdf"), {
+        updateMetadata: false,
+      });
+    });
+
+  // Same, returning the pages reported as broken
+  const downloadChecked = (docid: string, opts: DownloadOptions = {}) =>
+    withMockBrowser(mock, async (context, page) => {
+      const session = new BookSession(context, page, docid);
+      return downloadBook(session, "output/book.pdf", creds, {
+        interactiveLogin: false,
+        ...opts,
+      });
+    });
+
+  it("downloads every page with bookmarks and metadata", async () => {
+    await inTempDir(async () => {
+      const fontLoads = mock.stats.fontLoads;
+      const pdf = await download("1001");
+
+      assert.equal(pdf.getPageCount(), 6);
+      assert.equal(
+        pdf.getTitle(),
+        "Introduction aux réseaux : Édition de test"
+      );
+      assert.deepEqual(pdf.getAuthor(), "Jeanne Martin");
+      assert.ok(pdf.catalog.get(PDFName.of("Outlines")));
+      assert.ok(mock.stats.fontLoads > fontLoads, "the book font was loaded");
+      // Finished downloads leave no checkpoint behind
+      await assert.rejects(fs.access(".voxfetch-cesi/checkpoints/1001"));
+    });
+  });
+
+  it("downloads only the selected pages", async () => {
+    await inTempDir(async () => {
+      const pdf = await download("1001", { pages: parsePageSpec("2-3,6") });
+      assert.equal(pdf.getPageCount(), 3);
+    });
+  });
+
+  it("waits for a page that loads late", async () => {
+    await inTempDir(async () => {
+      mock.delayPages([3], 1500);
+      try {
+        const issues = await downloadChecked("1001");
+        assert.deepEqual(issues, []);
+      } finally {
+        mock.resetPages();
+      }
+    });
+  });
+
+  it("reports pages that never render", async () => {
+    await inTempDir(async () => {
+      mock.blankPages([2, 5]);
+      try {
+        const issues = await downloadChecked("1001");
+        assert.deepEqual(issues, [
+          { page: 2, problems: ["blank"] },
+          { page: 5, problems: ["blank"] },
+        ]);
+        const pdf = await PDFDocument.load(
+          await fs.readFile("output/book.pdf")
+        );
+        assert.equal(pdf.getPageCount(), 6);
+      } finally {
+        mock.resetPages();
+      }
+    });
+  });
+
+  it("prints each page at its own size in page mode", async () => {
+    await inTempDir(async () => {
+      const pdf = await download("1006", { renderMode: "page" });
+      const ratios = pdf
+        .getPages()
+        .map(p => p.getWidth() / p.getHeight())
+        .map(r => r.toFixed(2));
+      // Page 3 is a landscape foldout
+      assert.deepEqual(ratios, ["0.81", "0.81", "1.23", "0.81"]);
+    });
+  });
+
+  it("merges pages rendered by several tabs in book order", async () => {
+    await inTempDir(async () => {
+      const pdf = await download("1006", {
+        renderMode: "page",
+        concurrency: 3,
+      });
+      const ratios = pdf
+        .getPages()
+        .map(p => (p.getWidth() / p.getHeight()).toFixed(2));
+      assert.deepEqual(ratios, ["0.81", "0.81", "1.23", "0.81"]);
+    });
+  });
+
+  it("reuses the saved session on the next run", async () => {
+    await inTempDir(async () => {
+      const logins = mock.stats.logins;
+      await download("1001");
+      await download("1001", { pages: parsePageSpec("1") });
+      assert.equal(mock.stats.logins, logins + 1);
+    });
+  });
+
+  it("logs in again when the saved session expired on the server", async () => {
+    await inTempDir(async () => {
+      const logins = mock.stats.logins;
+      await download("1001", { pages: parsePageSpec("1") });
+      // The session file still holds SFSESSID, but the server forgot it
+      mock.expireSessions();
+      const pdf = await download("1001", { pages: parsePageSpec("1-2") });
+
+      assert.equal(pdf.getPageCount(), 2);
+      assert.equal(mock.stats.logins, logins + 2);
+      // The next run reuses the new session
+      await download("1001", { pages: parsePageSpec("1") });
+      assert.equal(mock.stats.logins, logins + 2);
+    });
+  });
+
+  it("logs in again when the session expires mid-download", async () => {
+    await inTempDir(async () => {
+      const logins = mock.stats.logins;
+      // The second chunk (pages 31-60) starts loading without a session
+      mock.expireSessionsAfter(55);
+      const pdf = await download("1005");
+
+      assert.equal(pdf.getPageCount(), 60);
+      assert.equal(mock.stats.logins, logins + 2);
+    });
+  });
+});
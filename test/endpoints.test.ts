@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+  ENDPOINT_ENV,
+  configureEndpoints,
+  endpointUrl,
+  getEndpoints,
+  isScholarVoxDomain,
+  scholarVoxUrlPattern,
+} from "../src/utils/endpoints.js";
+
+describe("endpoints", () => {
+  afterEach(() => {
+    configureEndpoints({});
+    for (const name of Object.values(ENDPOINT_ENV)) delete process.env[name];
+  });
+
+  it("builds the default ScholarVox URLs", () => {
+    assert.equal(
+      endpointUrl("reader", { docid: "88853415", page: 1 }),
+      "https://univ.scholarvox.com/reader/docid/88853415/page/1"
+    );
+    assert.equal(
+      endpointUrl("samlEntry", { institution: "cesi" }),
+      "https://univ.scholarvox.com/saml-sp/viacesi"
+    );
+    assert.ok(isScholarVoxDomain(".scholarvox.com"));
+    assert.ok(!isScholarVoxDomain("notscholarvox.com"));
+  });
+
+  it("follows the base URL for the cookie domain", () => {
+    configureEndpoints({ baseUrl: "https://pro.scholarvox.com/" });
+    assert.equal(
+      endpointUrl("catalog", { docid: "1001" }),
+      "https://pro.scholarvox.com/catalog/book/docid/1001"
+    );
+    assert.equal(getEndpoints().cookieDomain, "scholarvox.com");
+
+    configureEndpoints({ baseUrl: "http://127.0.0.1:8080" });
+    assert.equal(getEndpoints().cookieDomain, "127.0.0.1");
+    assert.ok(scholarVoxUrlPattern().test("http://127.0.0.1:8080/"));
+    assert.ok(!scholarVoxUrlPattern().test("https://sso.example/?r=127.0.0.1"));
+  });
+
+  it("lets the environment win over configured values", () => {
+    configureEndpoints({ baseUrl: "https://pro.scholarvox.com" });
+    process.env[ENDPOINT_ENV.baseUrl] = "http://localhost:3000";
+    process.env[ENDPOINT_ENV.wayf] = "/wayf/{institution}";
+    assert.equal(
+      endpointUrl("wayf", { institution: "cesi" }),
+      "http://localhost:3000/wayf/cesi"
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { describe, it } from "node:test";
+import type { BookMetadata } from "../src/helpers/bookMeta.js";
+import {
+  renderFilenameTemplate,
+  resolveCollision,
+  splitAuthorName,
+} from "../src/utils/filenameTemplate.js";
+import { inTempDir } from "./helpers.js";
+
+const meta: BookMetadata = {
+  docid: "1001",
+  catalogUrl: "https://univ.scholarvox.com/catalog/book/docid/1001",
+  title: "Réseaux : l'essentiel",
+  subtitle: null,
+  authors: ["Jeanne Martin", "DUPONT Éloïse"],
+  publisher: "Éditions Test",
+  year: 2021,
+  isbns: ["9782100000001"],
+  language: "fr",
+  collection: null,
+  description: null,
+  coverUrl: null,
+  pageCount: 6,
+};
+
+describe("renderFilenameTemplate", () => {
+  it("fills fields, indexes and name parts", () => {
+    assert.equal(
+      renderFilenameTemplate(
+        "{authors[0].last}/{year} - {title} ({docid}).pdf",
+        "1001",
+        meta
+      ),
+      path.join("Martin", "2021 - Réseaux l'essentiel (1001).pdf")
+    );
+    assert.equal(
+      renderFilenameTemplate("{authors[1].last:upper}.pdf", "1001", meta),
+      "DUPONT.pdf"
+    );
+  });
+
+  it("keeps the historical slug for the default template", () => {
+    assert.equal(
+      renderFilenameTemplate("{title:slug}-{docid}.pdf", "1001", meta),
+      "Réseaux-l'essentiel-1001.pdf"
+    );
+    // Long titles are cut at 100 characters, as before
+    const long = { ...meta, title: `Réseaux ${"x".repeat(120)}` };
+    assert.equal(
+      renderFilenameTemplate("{title:slug}-{docid}.pdf", "1001", long),
+      `Réseaux-${"x".repeat(92)}-1001.pdf`
+    );
+  });
+
+  it("transliterates to ASCII", () => {
+    assert.equal(
+      renderFilenameTemplate("{publisher} {title}.pdf", "1001", meta, "ascii"),
+      "Editions Test Reseaux l'essentiel.pdf"
+    );
+  });
+
+  it("drops missing values and their separators", () => {
+    assert.equal(
+      renderFilenameTemplate(
+        "{collection}/{year} - {title} ({isbn}).pdf",
+        "1002",
+        null
+      ),
+      "1002.pdf"
+    );
+    assert.equal(
+      renderFilenameTemplate("{collection|Divers}/{docid}.pdf", "1002", null),
+      path.join("Divers", "1002.pdf")
+    );
+  });
+
+  it("splits author names", () => {
+    assert.deepEqual(splitAuthorName("Martin, Jeanne"), {
+      first: "Jeanne",
+      last: "Martin",
+    });
+    assert.deepEqual(splitAuthorName("Jean-Pierre de La Fontaine"), {
+      first: "Jean-Pierre de La",
+      last: "Fontaine",
+    });
+  });
+});
+
+describe("resolveCollision", () => {
+  it("overwrites, suffixes or skips an existing file", async () => {
+    await inTempDir(async () => {
+      await fs.writeFile("book.pdf", "");
+      await fs.writeFile("book (2).pdf", "");
+      assert.equal(await resolveCollision("book.pdf", "overwrite"), "book.pdf");
+      assert.equal(
+        await resolveCollision("book.pdf", "suffix"),
+        "book (3).pdf"
+      );
+      assert.equal(await resolveCollision("book.pdf", "skip"), null);
+      assert.equal(await resolveCollision("other.pdf", "skip"), "other.pdf");
+    });
+  });
+});
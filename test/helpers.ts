@@ -0,0 +1,61 @@
+import fs from "node:fs";
+import fsp from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { chromium, type BrowserContext, type Page } from "playwright";
+import { withBrowser } from "../src/lib/browser.js";
+import type { MockScholarVox } from "./mock/server.js";
+
+const hasBrowser = fs.existsSync(chromium.executablePath());
+
+// CI sets VOXFETCH_REQUIRE_BROWSER so that a missing Chromium fails the run
+// instead of silently skipping every end-to-end test
+if (!hasBrowser && process.env.VOXFETCH_REQUIRE_BROWSER) {
+  throw new Error(
+    "Chromium is not installed but VOXFETCH_REQUIRE_BROWSER is set (run npm run playwright:install)."
+  );
+}
+
+/**
+ * Browser tests need Chromium (`npm run playwright:install`); without it
+ * they are skipped with this reason.
+ */
+export const skipWithoutBrowser: string | false = hasBrowser
+  ? false
+  : "Chromium is not installed (run npm run playwright:install)";
+
+/**
+ * Run `run` in a fresh headless browser whose ScholarVox traffic goes to
+ * the mock server.
+ */
+export async function withMockBrowser<T>(
+  mock: MockScholarVox,
+  run: (context: BrowserContext, page: Page) => Promise<T>
+): Promise<T> {
+  return withBrowser({
+    contextOptions: { viewport: { width: 1280, height: 800 } },
+    run: async context => {
+      await mock.route(context);
+      const page = await context.newPage();
+      return run(context, page);
+    },
+  });
+}
+
+/**
+ * Run `run` with a temporary working directory, so that checkpoints, saved
+ * sessions and output files do not touch the repository.
+ */
+export async function inTempDir<T>(
+  run: (dir: string) => Promise<T>
+): Promise<T> {
+  const previous = process.cwd();
+  const dir = await fsp.mkdtemp(path.join(os.tmpdir(), "voxfetch-test-"));
+  process.chdir(dir);
+  try {
+    return await run(dir);
+  } finally {
+    process.chdir(previous);
+    await fsp.rm(dir, { recursive: true, force: true });
+  }
+}
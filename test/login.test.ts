@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { waitAndDetectAuth } from "../src/helpers/authDetection.js";
+import { loginCESI } from "../src/utils/auth.js";
+import { InvalidCredentialsError } from "../src/utils/errors.js";
+import {
+  MOCK_EMAIL,
+  MOCK_PASSWORD,
+  startMockScholarVox,
+  type MockScholarVox,
+} from "./mock/server.js";
+import { skipWithoutBrowser, withMockBrowser } from "./helpers.js";
+
+describe("CESI login", { skip: skipWithoutBrowser }, () => {
+  let mock: MockScholarVox;
+  before(async () => {
+    mock = await startMockScholarVox();
+  });
+  after(() => mock.close());
+
+  it("is not authenticated before logging in", async () => {
+    const auth = await withMockBrowser(mock, (_, page) =>
+      waitAndDetectAuth(page, { docid: "1001", timeoutMs: 1000 })
+    );
+    assert.equal(auth.authenticated, false);
+  });
+
+  it("logs in through the SAML form and gets SFSESSID", async () => {
+    const logins = mock.stats.logins;
+    const auth = await withMockBrowser(mock, async (_, page) => {
+      await loginCESI(page, MOCK_EMAIL, MOCK_PASSWORD);
+      return waitAndDetectAuth(page, { docid: "1001", timeoutMs: 3000 });
+    });
+    assert.equal(auth.authenticated, true);
+    assert.equal(mock.stats.logins, logins + 1);
+  });
+
+  it("reports wrong credentials from the IdP error banner", async () => {
+    await withMockBrowser(mock, async (_, page) => {
+      await assert.rejects(
+        loginCESI(page, MOCK_EMAIL, "wrong-password"),
+        InvalidCredentialsError
+      );
+    });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * A tiny TrueType font built in memory for the mock reader: every printable
+ * ASCII character is drawn as a filled box, so text set in it is easy to
+ * tell apart from a fallback font. Generated instead of checked in as a
+ * binary fixture.
+ */
+
+const FIRST_CHAR = 0x20;
+const LAST_CHAR = 0x7e;
+const UNITS_PER_EM = 1000;
+const ADVANCE = 600;
+
+class Writer {
+  private bytes: number[] = [];
+
+  u8(v: number) {
+    this.bytes.push(v & 0xff);
+    return this;
+  }
+  u16(v: number) {
+    return this.u8(v >> 8).u8(v);
+  }
+  i16(v: number) {
+    return this.u16(v < 0 ? v + 0x10000 : v);
+  }
+  u32(v: number) {
+    return this.u16(Math.floor(v / 0x10000)).u16(v % 0x10000);
+  }
+  raw(data: Uint8Array | number[]) {
+    for (const b of data) this.bytes.push(b);
+    return this;
+  }
+  zeros(n: number) {
+    for (let i = 0; i < n; i++) this.bytes.push(0);
+    return this;
+  }
+  get length() {
+    return this.bytes.length;
+  }
+  toBuffer() {
+    return Buffer.from(this.bytes);
+  }
+}
+
+function checksum(data: Buffer): number {
+  const padded = Buffer.concat([
+    data,
+    Buffer.alloc((4 - (data.length % 4)) % 4),
+  ]);
+  let sum = 0;
+  for (let i = 0; i < padded.length; i += 4) {
+    sum = (sum + padded.readUInt32BE(i)) >>> 0;
+  }
+  return sum;
+}
+
+function boxGlyph(): Buffer {
+  // One contour, four on-curve points: (50,0) (550,0) (550,700) (50,700)
+  const w = new Writer();
+  w.i16(1).i16(50).i16(0).i16(550).i16(700); // contours and bounding box
+  w.u16(3); // endPtsOfContours
+  w.u16(0); // no instructions
+  w.u8(0x01).u8(0x01).u8(0x01).u8(0x01); // on-curve, 16-bit deltas
+  w.i16(50).i16(500).i16(0).i16(-500); // x deltas
+  w.i16(0).i16(0).i16(700).i16(0); // y deltas
+  return w.toBuffer();
+}
+
+function nameTable(family: string): Buffer {
+  const names: Array<[number, string]> = [
+    [1, family],
+    [2, "Regular"],
+    [3, `${family} Regular`],
+    [4, `${family} Regular`],
+    [6, `${family.replace(/\s+/g, "")}-Regular`],
+  ];
+  const strings = names.map(([, text]) =>
+    Buffer.from(text, "utf16le").swap16()
+  );
+
+  const w = new Writer();
+  w.u16(0)
+    .u16(names.length)
+    .u16(6 + names.length * 12);
+  let offset = 0;
+  names.forEach(([id], i) => {
+    w.u16(3).u16(1).u16(0x409).u16(id).u16(strings[i].length).u16(offset);
+    offset += strings[i].length;
+  });
+  for (const s of strings) w.raw(s);
+  return w.toBuffer();
+}
+
+/**
+ * Build the font. `family` only ends up in the name table; the CSS
+ * @font-face rule decides the family name used by the page.
+ */
+export function buildMockFont(family = "VoxFetch Mock"): Buffer {
+  const numGlyphs = 1 + (LAST_CHAR - FIRST_CHAR + 1); // .notdef + one per char
+  const glyph = boxGlyph();
+
+  const head = new Writer()
+    .u32(0x00010000) // version
+    .u32(0x00010000) // fontRevision
+    .u32(0) // checkSumAdjustment, patched below
+    .u32(0x5f0f3cf5) // magic
+    .u16(0x0003) // flags
+    .u16(UNITS_PER_EM)
+    .zeros(16) // created, modified
+    .i16(0)
+    .i16(0)
+    .i16(550)
+    .i16(700) // bounding box of all glyphs
+    .u16(0) // macStyle
+    .u16(8) // lowestRecPPEM
+    .i16(2) // fontDirectionHint
+    .i16(0) // indexToLocFormat: short offsets
+    .i16(0); // glyphDataFormat
+
+  const hhea = new Writer()
+    .u32(0x00010000)
+    .i16(800) // ascender
+    .i16(-200) // descender
+    .i16(0) // lineGap
+    .u16(ADVANCE)
+    .i16(0) // minLeftSideBearing
+    .i16(0) // minRightSideBearing
+    .i16(550) // xMaxExtent
+    .i16(1) // caretSlopeRise
+    .i16(0) // caretSlopeRun
+    .i16(0) // caretOffset
+    .zeros(8) // reserved
+    .i16(0) // metricDataFormat
+    .u16(numGlyphs);
+
+  const maxp = new Writer()
+    .u32(0x00010000)
+    .u16(numGlyphs)
+    .u16(4) // maxPoints
+    .u16(1) // maxContours
+    .u16(0)
+    .u16(0)
+    .u16(2) // maxZones
+    .zeros(16);
+
+  const os2 = new Writer()
+    .u16(1) // version
+    .i16(ADVANCE) // xAvgCharWidth
+    .u16(400) // usWeightClass
+    .u16(5) // usWidthClass
+    .u16(0) // fsType: installable
+    .i16(650)
+    .i16(600)
+    .i16(0)
+    .i16(75) // subscript
+    .i16(650)
+    .i16(600)
+    .i16(0)
+    .i16(350) // superscript
+    .i16(50)
+    .i16(300) // strikeout
+    .i16(0) // sFamilyClass
+    .zeros(10) // panose
+    .u32(1)
+    .u32(0)
+    .u32(0)
+    .u32(0) // ulUnicodeRange: Basic Latin
+    .raw([...Buffer.from("MOCK")])
+    .u16(0x0040) // fsSelection: REGULAR
+    .u16(FIRST_CHAR)
+    .u16(LAST_CHAR)
+    .i16(800)
+    .i16(-200)
+    .i16(0) // typo metrics
+    .u16(800)
+    .u16(200) // win metrics
+    .u32(1)
+    .u32(0); // ulCodePageRange: Latin 1
+
+  const hmtx = new Writer();
+  hmtx.u16(ADVANCE).i16(0); // .notdef
+  for (let i = 1; i < numGlyphs; i++) hmtx.u16(ADVANCE).i16(50);
+
+  // cmap format 4: FIRST_CHAR..LAST_CHAR map to glyphs 1..n
+  const segCount = 2;
+  const cmapSub = new Writer()
+    .u16(4)
+    .u16(16 + segCount * 8)
+    .u16(0) // language
+    .u16(segCount * 2)
+    .u16(4) // searchRange
+    .u16(1) // entrySelector
+    .u16(0) // rangeShift
+    .u16(LAST_CHAR)
+    .u16(0xffff) // endCode
+    .u16(0) // reservedPad
+    .u16(FIRST_CHAR)
+    .u16(0xffff) // startCode
+    .i16(1 - FIRST_CHAR)
+    .i16(1) // idDelta
+    .u16(0)
+    .u16(0); // idRangeOffset
+  const cmap = new Writer()
+    .u16(0)
+    .u16(1)
+    .u16(3)
+    .u16(1)
+    .u32(12)
+    .raw(cmapSub.toBuffer());
+
+  const glyf = new Writer();
+  const loca = new Writer().u16(0).u16(0); // .notdef is empty
+  for (let i = 1; i < numGlyphs; i++) {
+    glyf.raw(glyph);
+    loca.u16(glyf.length / 2);
+  }
+
+  const post = new Writer()
+    .u32(0x00030000) // version 3: no glyph names
+    .u32(0) // italicAngle
+    .i16(-100)
+    .i16(50) // underline
+    .u32(0) // isFixedPitch
+    .zeros(16);
+
+  const tables: Record<string, Buffer> = {
+    "OS/2": os2.toBuffer(),
+    cmap: cmap.toBuffer(),
+    glyf: glyf.toBuffer(),
+    head: head.toBuffer(),
+    hhea: hhea.toBuffer(),
+    hmtx: hmtx.toBuffer(),
+    loca: loca.toBuffer(),
+    maxp: maxp.toBuffer(),
+    name: nameTable(family),
+    post: post.toBuffer(),
+  };
+  const tags = Object.keys(tables).sort();
+
+  const entrySelector = Math.floor(Math.log2(tags.length));
+  const searchRange = 2 ** entrySelector * 16;
+  const dir = new Writer()
+    .u32(0x00010000)
+    .u16(tags.length)
+    .u16(searchRange)
+    .u16(entrySelector)
+    .u16(tags.length * 16 - searchRange);
+
+  let offset = 12 + tags.length * 16;
+  const bodies: Buffer[] = [];
+  let headOffset = 0;
+  for (const tag of tags) {
+    const data = tables[tag];
+    if (tag === "head") headOffset = offset;
+    dir.raw([...Buffer.from(tag.padEnd(4))]).u32(checksum(data));
+    dir.u32(offset).u32(data.length);
+    const padded = Buffer.concat([
+      data,
+      Buffer.alloc((4 - (data.length % 4)) % 4),
+    ]);
+    bodies.push(padded);
+    offset += padded.length;
+  }
+
+  const font = Buffer.concat([dir.toBuffer(), ...bodies]);
+  font.writeUInt32BE((0xb1b0afba - checksum(font)) >>> 0, headOffset + 8);
+  return font;
+}
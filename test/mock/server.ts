@@ -0,0 +1,415 @@
+/**
+ * Local stand-in for ScholarVox and a CESI-like SAML identity provider, so
+ * the catalog check, the login and the whole download can be tested offline.
+ *
+ * The server answers on 127.0.0.1; `route(context)` makes a Playwright
+ * context send its requests for univ.scholarvox.com and the mock IdP host
+ * there, so the code under test keeps using the real URLs.
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { BrowserContext, Route } from "playwright";
+import { buildMockFont } from "./font.js";
+
+export const SCHOLARVOX_ORIGIN = "https://univ.scholarvox.com";
+export const IDP_ORIGIN = "https://sso.mock-idp.test";
+
+export const MOCK_EMAIL = "etudiant@viacesi.fr";
+export const MOCK_PASSWORD = "correct-horse";
+
+export type MockTocEntry = {
+  title: string;
+  page: number;
+  children?: MockTocEntry[];
+};
+
+export type MockBook = {
+  docid: string;
+  status: "found" | "removed" | "notavail" | "soon";
+  title: string;
+  pages: number;
+  toc?: MockTocEntry[];
+  landscape?: number[]; // foldout pages, 1332x1080 instead of 1080x1332
+};
+
+export const MOCK_BOOKS: MockBook[] = [
+  {
+    docid: "1001",
+    status: "found",
+    title: "Introduction aux réseaux",
+    pages: 6,
+    toc: [
+      { title: "Couverture", page: 1 },
+      {
+        title: "Chapitre 1 : Les bases",
+        page: 2,
+        children: [{ title: "1.1 Le modèle OSI", page: 3 }],
+      },
+      { title: "Chapitre 2 : TCP/IP", page: 5 },
+    ],
+  },
+  { docid: "1002", status: "removed", title: "Ouvrage retiré", pages: 10 },
+  {
+    docid: "1003",
+    status: "notavail",
+    title: "Ouvrage non disponible",
+    pages: 10,
+  },
+  { docid: "1004", status: "soon", title: "Ouvrage à paraître", pages: 10 },
+  {
+    docid: "1005",
+    status: "found",
+    title: "Un long manuel",
+    pages: 60,
+    toc: [
+      { title: "Partie 1", page: 1 },
+      { title: "Partie 2", page: 31 },
+    ],
+  },
+  {
+    docid: "1006",
+    status: "found",
+    title: "Atlas des réseaux",
+    pages: 4,
+    landscape: [3],
+  },
+];
+
+export type MockStats = {
+  logins: number; // successful IdP logins
+  failedLogins: number;
+  pageLoads: number; // page fragments served with a valid session
+  fontLoads: number;
+};
+
+export type MockScholarVox = {
+  origin: string; // where the server really listens
+  stats: MockStats;
+  /** Invalidate every session once `n` more page fragments were served */
+  expireSessionsAfter(n: number): void;
+  expireSessions(): void;
+  /** Answer these pages' fragments `ms` late, until resetPages() */
+  delayPages(pages: number[], ms: number): void;
+  /** Answer these pages' fragments without content, until resetPages() */
+  blankPages(pages: number[]): void;
+  resetPages(): void;
+  /** Send the context's ScholarVox and IdP requests to this server */
+  route(context: BrowserContext): Promise<void>;
+  close(): Promise<void>;
+};
+
+const FIXTURES = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "..",
+  "fixtures"
+);
+
+const AUTH_WALL =
+  "Pour consulter cet ouvrage dans son intégralité, veuillez vous authentifier";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Load a fixture page and fill its {{placeholders}}. Values are inserted as
+ * is, callers escape text.
+ */
+function fixture(name: string, values: Record<string, string> = {}): string {
+  const html = fs.readFileSync(path.join(FIXTURES, name), "utf8");
+  return html.replace(/\{\{(\w+)\}\}/g, (_, key) => values[key] ?? "");
+}
+
+function outlineHtml(entries: MockTocEntry[]): string {
+  const items = entries.map(entry => {
+    const link = `<a class="l" href="#pf${entry.page.toString(16)}" data-dest-detail='[${entry.page},"XYZ",0,1332,null]'>${escapeHtml(entry.title)}</a>`;
+    const children = entry.children?.length ? outlineHtml(entry.children) : "";
+    return `<li>${link}${children}</li>`;
+  });
+  return `<ul>${items.join("")}</ul>`;
+}
+
+function pageSize(book: MockBook | undefined, pageNumber: number) {
+  return book?.landscape?.includes(pageNumber)
+    ? { width: 1332, height: 1080 }
+    : { width: 1080, height: 1332 };
+}
+
+function pagesHtml(book: MockBook): string {
+  return Array.from({ length: book.pages }, (_, i) => {
+    const { width, height } = pageSize(book, i + 1);
+    return `<div id="pf${(i + 1).toString(16)}" class="pf" data-page-no="${i + 1}" style="width:${width}px;height:${height}px"></div>`;
+  }).join("");
+}
+
+function backgroundSvg(
+  pageNumber: number,
+  { width, height }: { width: number; height: number }
+): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"><rect width="${width}" height="${height}" fill="#fdfdf8"/><text x="${width / 2}" y="${height - 52}" font-size="32" text-anchor="middle">${pageNumber}</text></svg>`;
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? "").split(";")) {
+    const [name, ...rest] = part.trim().split("=");
+    if (name) cookies[name] = rest.join("=");
+  }
+  return cookies;
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+export async function startMockScholarVox(
+  books: MockBook[] = MOCK_BOOKS
+): Promise<MockScholarVox> {
+  const byId = new Map(books.map(b => [b.docid, b]));
+  const sessions = new Set<string>();
+  const tickets = new Set<string>();
+  const stats: MockStats = {
+    logins: 0,
+    failedLogins: 0,
+    pageLoads: 0,
+    fontLoads: 0,
+  };
+  let expireAfter: number | null = null;
+  let delayed = new Map<number, number>(); // page -> ms
+  let blank = new Set<number>();
+  const font = buildMockFont();
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://mock");
+    const session = parseCookies(req.headers.cookie).SFSESSID;
+    const loggedIn = session !== undefined && sessions.has(session);
+
+    const send = (status: number, body: string | Buffer, type: string) => {
+      res.writeHead(status, { "content-type": type });
+      res.end(body);
+    };
+    const html = (body: string, status = 200) =>
+      send(status, body, "text/html; charset=utf-8");
+    const redirect = (
+      location: string,
+      headers: http.OutgoingHttpHeaders = {}
+    ) => {
+      res.writeHead(302, { location, ...headers });
+      res.end();
+    };
+
+    let m: RegExpMatchArray | null;
+
+    // --- ScholarVox ---
+    if (url.pathname === "/") return html(fixture("home.html"));
+
+    if ((m = url.pathname.match(/^\/catalog\/book\/docid\/(\d+)$/))) {
+      const book = byId.get(m[1]);
+      if (!book) return html("<h1>Page introuvable</h1>", 404);
+      return html(
+        fixture(`catalog-${book.status}.html`, {
+          docid: book.docid,
+          title: escapeHtml(book.title),
+          subtitle: "Édition de test",
+          author: "Jeanne Martin",
+          pages: String(book.pages),
+        })
+      );
+    }
+
+    if ((m = url.pathname.match(/^\/reader\/docid\/(\d+)\/page\/\d+$/))) {
+      const book = byId.get(m[1]);
+      if (!book) return html("<h1>Page introuvable</h1>", 404);
+      if (!loggedIn) return html(fixture("reader-locked.html"));
+      return html(
+        fixture("reader.html", {
+          title: escapeHtml(book.title),
+          documentUrl: `${SCHOLARVOX_ORIGIN}/reader/document/${book.docid}`,
+        })
+      );
+    }
+
+    if ((m = url.pathname.match(/^\/reader\/document\/(\d+)$/))) {
+      const book = byId.get(m[1]);
+      if (!book) return html("<h1>Page introuvable</h1>", 404);
+      if (!loggedIn) return html(fixture("reader-locked.html"));
+      return html(
+        fixture("document.html", {
+          title: escapeHtml(book.title),
+          outline: outlineHtml(book.toc ?? []),
+          pages: pagesHtml(book),
+          documentPath: `/reader/document/${book.docid}`,
+        })
+      );
+    }
+
+    if ((m = url.pathname.match(/^\/reader\/document\/(\d+)\/page\/(\d+)$/))) {
+      const n = parseInt(m[2], 10);
+      if (!loggedIn) return html(`<p class="t-locked">${AUTH_WALL}</p>`);
+
+      stats.pageLoads++;
+      if (expireAfter !== null && --expireAfter <= 0) {
+        expireAfter = null;
+        sessions.clear();
+      }
+      if (blank.has(n)) return html("");
+      const { width, height } = pageSize(byId.get(m[1]), n);
+      const delay = delayed.get(n);
+      if (delay) await new Promise(resolve => setTimeout(resolve, delay));
+      return html(
+        `<img class="bi" src="/reader/document/${m[1]}/bg/${n}.svg" width="${width}" height="${height}" style="width:${width}px;height:${height}px" alt="" />` +
+          `<div class="t">Page ${n}</div>`
+      );
+    }
+
+    if (
+      (m = url.pathname.match(/^\/reader\/document\/(\d+)\/bg\/(\d+)\.svg$/))
+    ) {
+      const n = parseInt(m[2], 10);
+      return send(
+        200,
+        backgroundSvg(n, pageSize(byId.get(m[1]), n)),
+        "image/svg+xml"
+      );
+    }
+
+    if (url.pathname === "/fonts/ff1.ttf") {
+      stats.fontLoads++;
+      // Slow enough that printing before document.fonts is ready would show
+      setTimeout(() => send(200, font, "font/ttf"), 300);
+      return;
+    }
+
+    // SAML entry point: hand over to the identity provider
+    if (url.pathname === "/saml-sp/viacesi") {
+      const request = crypto.randomBytes(8).toString("hex");
+      return redirect(`${IDP_ORIGIN}/idp/login?request=${request}`);
+    }
+
+    // Assertion consumer: the ticket from the IdP becomes a session cookie
+    if (url.pathname === "/saml-sp/acs") {
+      const ticket = url.searchParams.get("ticket") ?? "";
+      if (!tickets.delete(ticket)) return html("<h1>Invalid ticket</h1>", 403);
+      const id = crypto.randomBytes(16).toString("hex");
+      sessions.add(id);
+      return redirect(`${SCHOLARVOX_ORIGIN}/`, {
+        "set-cookie": `SFSESSID=${id}; Path=/; Secure; HttpOnly; SameSite=Lax`,
+      });
+    }
+
+    // --- Identity provider ---
+    if (url.pathname === "/idp/login" && req.method === "GET") {
+      return html(
+        fixture("idp-login.html", {
+          request: escapeHtml(url.searchParams.get("request") ?? ""),
+        })
+      );
+    }
+
+    if (url.pathname === "/idp/login" && req.method === "POST") {
+      const form = new URLSearchParams(await readBody(req));
+      if (
+        form.get("email") !== MOCK_EMAIL ||
+        form.get("password") !== MOCK_PASSWORD
+      ) {
+        stats.failedLogins++;
+        return html(
+          fixture("idp-login.html", {
+            request: escapeHtml(form.get("request") ?? ""),
+            error:
+              '<div id="errorText" role="alert">Your account or password is incorrect.</div>',
+          })
+        );
+      }
+      stats.logins++;
+      const ticket = crypto.randomBytes(16).toString("hex");
+      tickets.add(ticket);
+      return redirect(`${SCHOLARVOX_ORIGIN}/saml-sp/acs?ticket=${ticket}`);
+    }
+
+    html("<h1>Page introuvable</h1>", 404);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const hosts = new Set([
+    new URL(SCHOLARVOX_ORIGIN).host,
+    new URL(IDP_ORIGIN).host,
+  ]);
+
+  // Replay an intercepted browser request against the local server
+  const forward = async (route: Route) => {
+    const request = route.request();
+    const target = new URL(request.url());
+    const headers = await request.allHeaders();
+    const sent: Record<string, string> = {};
+    for (const name of ["cookie", "content-type", "accept"]) {
+      if (headers[name]) sent[name] = headers[name];
+    }
+
+    const res = await fetch(`${origin}${target.pathname}${target.search}`, {
+      method: request.method(),
+      headers: sent,
+      body: request.postData() ?? undefined,
+      redirect: "manual",
+    });
+
+    const reply: Record<string, string> = {};
+    res.headers.forEach((value, name) => {
+      if (!["set-cookie", "content-length", "transfer-encoding"].includes(name))
+        reply[name] = value;
+    });
+    const cookies = res.headers.getSetCookie();
+    if (cookies.length > 0) reply["set-cookie"] = cookies.join("\n");
+
+    await route.fulfill({
+      status: res.status,
+      headers: reply,
+      body: Buffer.from(await res.arrayBuffer()),
+    });
+  };
+
+  return {
+    origin,
+    stats,
+    expireSessionsAfter(n) {
+      expireAfter = n;
+    },
+    expireSessions() {
+      sessions.clear();
+    },
+    delayPages(pages, ms) {
+      for (const p of pages) delayed.set(p, ms);
+    },
+    blankPages(pages) {
+      for (const p of pages) blank.add(p);
+    },
+    resetPages() {
+      delayed = new Map();
+      blank = new Set();
+    },
+    async route(context) {
+      await context.route(
+        url => hosts.has(url.host),
+        // The browser may go away while a request is in flight
+        route => forward(route).catch(() => route.abort().catch(() => {}))
+      );
+    },
+    close() {
+      return new Promise<void>((resolve, reject) =>
+        server.close(err => (err ? reject(err) : resolve()))
+      );
+    },
+  };
+}
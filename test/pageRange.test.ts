@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parsePageSpec, resolvePageSpec } from "../src/utils/pageRange.js";
+
+describe("parsePageSpec", () => {
+  it("parses single pages, ranges and open ends", () => {
+    assert.deepEqual(parsePageSpec("1-20,45,100-"), [
+      { from: 1, to: 20 },
+      { from: 45, to: 45 },
+      { from: 100, to: undefined },
+    ]);
+    assert.deepEqual(parsePageSpec("-3"), [{ from: 1, to: 3 }]);
+  });
+
+  it("ignores spaces and empty parts", () => {
+    assert.deepEqual(parsePageSpec(" 2 - 4 ,, 7 ,"), [
+      { from: 2, to: 4 },
+      { from: 7, to: 7 },
+    ]);
+  });
+
+  it("rejects invalid expressions", () => {
+    assert.throws(() => parsePageSpec(""), /Empty page range/);
+    assert.throws(() => parsePageSpec(" , "), /Empty page range/);
+    assert.throws(() => parsePageSpec("a-b"), /Invalid page range "a-b"/);
+    assert.throws(() => parsePageSpec("-"), /Invalid page range "-"/);
+    assert.throws(() => parsePageSpec("0"), /Invalid page range "0"/);
+    assert.throws(() => parsePageSpec("20-10"), /Invalid page range "20-10"/);
+  });
+});
+
+describe("resolvePageSpec", () => {
+  it("expands spans into sorted, de-duplicated pages", () => {
+    assert.deepEqual(
+      resolvePageSpec(parsePageSpec("8-,2,1-3"), 10),
+      [1, 2, 3, 8, 9, 10]
+    );
+  });
+
+  it("stops ranges at the last page", () => {
+    assert.deepEqual(resolvePageSpec(parsePageSpec("4-50"), 6), [4, 5, 6]);
+  });
+
+  it("rejects spans past the end of the book", () => {
+    assert.throws(
+      () => resolvePageSpec(parsePageSpec("7"), 6),
+      /Page 7 is out of range: the book has 6 pages/
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRawStream,
+  PDFString,
+} from "pdf-lib";
+import type { BookMetadata } from "../src/helpers/bookMeta.js";
+import { embedBookMetadata } from "../src/utils/pdfMetadata.js";
+
+const meta: BookMetadata = {
+  docid: "1001",
+  catalogUrl: "https://univ.scholarvox.com/catalog/book/docid/1001?a=1&b=2",
+  title: "Réseaux & <IP>",
+  subtitle: "Édition de test",
+  authors: ["Jeanne Martin", "Éloïse Dupont"],
+  publisher: "Éditions Test",
+  year: 2021,
+  isbns: ["9782100000001"],
+  language: "Français",
+  collection: "Sciences Sup",
+  description: "Les bases des réseaux.",
+  coverUrl: null,
+  pageCount: 6,
+};
+
+const created = new Date("2024-05-01T10:00:00.000Z");
+
+/**
+ * `meta` embedded into a one-page PDF, saved and loaded again
+ */
+async function roundTrip(book: BookMetadata): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  pdf.addPage();
+  embedBookMetadata(pdf, book, created);
+  return PDFDocument.load(await pdf.save(), { updateMetadata: false });
+}
+
+function xmpOf(pdf: PDFDocument): string {
+  // Stored uncompressed, so the raw contents are the packet
+  const stream = pdf.catalog.lookup(PDFName.of("Metadata"));
+  assert.ok(stream instanceof PDFRawStream);
+  return new TextDecoder().decode(stream.getContents());
+}
+
+describe("embedBookMetadata", () => {
+  it("fills the document info dictionary", async () => {
+    const pdf = await roundTrip(meta);
+    assert.equal(pdf.getTitle(), "Réseaux & <IP> : Édition de test");
+    assert.equal(pdf.getAuthor(), "Jeanne Martin, Éloïse Dupont");
+    assert.equal(pdf.getSubject(), "Les bases des réseaux.");
+    assert.equal(
+      pdf.getKeywords(),
+      "Sciences Sup Éditions Test 2021 ISBN 9782100000001"
+    );
+    assert.equal(pdf.getProducer(), "VoxFetch-CESI");
+    assert.equal(pdf.getCreationDate()?.toISOString(), created.toISOString());
+  });
+
+  it("records the book it comes from", async () => {
+    const pdf = await roundTrip(meta);
+    const info = pdf.context.lookup(pdf.context.trailerInfo.Info, PDFDict);
+    assert.equal(
+      info.lookup(PDFName.of("VoxFetchDocId"), PDFString).decodeText(),
+      "1001"
+    );
+    assert.equal(
+      info.lookup(PDFName.of("VoxFetchSource"), PDFHexString).decodeText(),
+      meta.catalogUrl
+    );
+  });
+
+  it("writes an escaped XMP packet", async () => {
+    const xmp = xmpOf(await roundTrip(meta));
+    assert.match(
+      xmp,
+      /<dc:title><rdf:Alt><rdf:li xml:lang="x-default">Réseaux &amp; &lt;IP&gt; : Édition de test<\/rdf:li>/
+    );
+    assert.match(
+      xmp,
+      /<dc:creator><rdf:Seq><rdf:li>Jeanne Martin<\/rdf:li><rdf:li>Éloïse Dupont<\/rdf:li><\/rdf:Seq>/
+    );
+    assert.match(xmp, /<dc:language><rdf:Bag><rdf:li>fr<\/rdf:li>/);
+    assert.match(xmp, /<prism:isbn>9782100000001<\/prism:isbn>/);
+    assert.match(xmp, /<voxfetch:DocId>1001<\/voxfetch:DocId>/);
+    assert.match(
+      xmp,
+      /<voxfetch:SourceUrl>https:\/\/univ\.scholarvox\.com\/catalog\/book\/docid\/1001\?a=1&amp;b=2<\/voxfetch:SourceUrl>/
+    );
+    assert.match(xmp, /<xmp:CreateDate>2024-05-01T10:00:00\.000Z</);
+    assert.doesNotMatch(xmp, /<IP>|&b=/);
+  });
+
+  it("leaves out what the catalog does not give", async () => {
+    const pdf = await roundTrip({
+      ...meta,
+      title: null,
+      subtitle: null,
+      authors: [],
+      description: null,
+      publisher: null,
+      year: null,
+      isbns: [],
+      language: null,
+      collection: null,
+    });
+    assert.equal(pdf.getTitle(), undefined);
+    assert.equal(pdf.getAuthor(), undefined);
+    assert.equal(pdf.getKeywords(), undefined);
+
+    const xmp = xmpOf(pdf);
+    assert.doesNotMatch(xmp, /dc:title|dc:creator|dc:language|prism:isbn/);
+    assert.match(xmp, /<voxfetch:DocId>1001<\/voxfetch:DocId>/);
+  });
+});
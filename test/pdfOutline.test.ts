@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRef,
+} from "pdf-lib";
+import type { TocEntry } from "../src/helpers/tableOfContents.js";
+import { addOutline } from "../src/utils/pdfOutline.js";
+
+type Bookmark = {
+  title: string;
+  page: number; // 0-indexed
+  count?: number;
+  children: Bookmark[];
+};
+
+const toc: TocEntry[] = [
+  { title: "Préface", page: 1, children: [] },
+  {
+    title: "Chapitre 1",
+    page: 2,
+    children: [
+      { title: "1.1 Modèle OSI", page: 2, children: [] },
+      { title: "1.2 TCP/IP", page: 3, children: [] },
+    ],
+  },
+  {
+    title: "Annexes",
+    page: null,
+    children: [{ title: "Glossaire", page: 4, children: [] }],
+  },
+];
+
+async function withPages(count: number): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < count; i++) pdf.addPage([200, 300]);
+  return pdf;
+}
+
+/**
+ * The outline of `pdf` after a save and reload, as a plain tree
+ */
+async function readOutline(pdf: PDFDocument): Promise<Bookmark[] | null> {
+  const doc = await PDFDocument.load(await pdf.save());
+  const root = doc.catalog.lookupMaybe(PDFName.of("Outlines"), PDFDict);
+  if (!root) return null;
+  const pageRefs = doc.getPages().map(p => p.ref);
+
+  const readLevel = (parent: PDFDict): Bookmark[] => {
+    const level: Bookmark[] = [];
+    let ref = parent.get(PDFName.of("First"));
+    while (ref instanceof PDFRef) {
+      const item = doc.context.lookup(ref, PDFDict);
+      const dest = item.lookup(PDFName.of("Dest"), PDFArray);
+      const count = item.lookupMaybe(PDFName.of("Count"), PDFNumber);
+      level.push({
+        title: item.lookup(PDFName.of("Title"), PDFHexString).decodeText(),
+        page: pageRefs.indexOf(dest.get(0) as PDFRef),
+        ...(count ? { count: count.asNumber() } : {}),
+        children: readLevel(item),
+      });
+      ref = item.get(PDFName.of("Next"));
+    }
+    return level;
+  };
+  return readLevel(root);
+}
+
+describe("addOutline", () => {
+  it("writes nested, collapsed bookmarks", async () => {
+    const pdf = await withPages(4);
+    assert.equal(
+      addOutline(pdf, toc, p => p - 1),
+      5
+    );
+
+    assert.deepEqual(await readOutline(pdf), [
+      { title: "Préface", page: 0, children: [] },
+      {
+        title: "Chapitre 1",
+        page: 1,
+        count: -2,
+        children: [
+          { title: "1.1 Modèle OSI", page: 1, children: [] },
+          { title: "1.2 TCP/IP", page: 2, children: [] },
+        ],
+      },
+      // No target page: the children move up a level
+      { title: "Glossaire", page: 3, children: [] },
+    ]);
+  });
+
+  it("drops entries whose page is not in the PDF", async () => {
+    // Only book pages 3 and 4 were downloaded
+    const pdf = await withPages(2);
+    const index = new Map([
+      [3, 0],
+      [4, 1],
+    ]);
+    assert.equal(
+      addOutline(pdf, toc, p => index.get(p) ?? null),
+      2
+    );
+
+    assert.deepEqual(await readOutline(pdf), [
+      { title: "1.2 TCP/IP", page: 0, children: [] },
+      { title: "Glossaire", page: 1, children: [] },
+    ]);
+  });
+
+  it("writes nothing without a matching entry", async () => {
+    const pdf = await withPages(1);
+    assert.equal(
+      addOutline(pdf, toc, () => null),
+      0
+    );
+    assert.equal(await readOutline(pdf), null);
+  });
+});
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import { describe, it } from "node:test";
+import { PDFDocument, PDFName, StandardFonts } from "pdf-lib";
+import { addOutline } from "../src/utils/pdfOutline.js";
+import { PdfStreamWriter } from "../src/utils/pdfStream.js";
+import { inTempDir } from "./helpers.js";
+
+/**
+ * A chunk PDF like the printed ones, with text on every page. Pages are told
+ * apart by their height.
+ */
+async function chunk(heights: number[]): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  for (const height of heights) {
+    const page = pdf.addPage([200, height]);
+    page.drawText(`${height}`, { x: 20, y: 20, size: 12, font });
+  }
+  // Reload, as mergeCheckpoint reads the chunks from disk
+  return PDFDocument.load(await pdf.save());
+}
+
+describe("PdfStreamWriter", () => {
+  it("writes the appended pages in order", async () => {
+    await inTempDir(async dir => {
+      const file = `${dir}/book.pdf`;
+      const out = await PdfStreamWriter.open(file);
+      await out.appendPages(await chunk([301, 302, 303]), [0, 2]);
+      await out.appendPages(await chunk([304, 305]), [1]);
+      assert.equal(out.doc.getPageCount(), 3);
+      await out.close();
+
+      await assert.rejects(fs.access(`${file}.part`));
+      const pdf = await PDFDocument.load(await fs.readFile(file));
+      assert.deepEqual(
+        pdf.getPages().map(p => p.getHeight()),
+        [301, 303, 305]
+      );
+      // Every page kept its font
+      for (const page of pdf.getPages()) {
+        const fonts = page.node.Resources()?.lookup(PDFName.of("Font"));
+        assert.ok(fonts);
+      }
+    });
+  });
+
+  it("keeps the outline and metadata set on the document", async () => {
+    await inTempDir(async dir => {
+      const file = `${dir}/book.pdf`;
+      const out = await PdfStreamWriter.open(file);
+      await out.appendPages(await chunk([301, 302]), [0, 1]);
+      out.doc.setTitle("Réseaux");
+      addOutline(
+        out.doc,
+        [{ title: "Chapitre 2", page: 2, children: [] }],
+        p => p - 1
+      );
+      await out.close();
+
+      const pdf = await PDFDocument.load(await fs.readFile(file));
+      assert.equal(pdf.getTitle(), "Réseaux");
+      assert.ok(pdf.catalog.get(PDFName.of("Outlines")));
+    });
+  });
+
+  it("leaves nothing behind when discarded", async () => {
+    await inTempDir(async dir => {
+      const file = `${dir}/book.pdf`;
+      const out = await PdfStreamWriter.open(file);
+      await out.appendPages(await chunk([301]), [0]);
+      await out.discard();
+
+      assert.deepEqual(await fs.readdir(dir), []);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseBookInput } from "../src/helpers/scholarVox.js";
+
+describe("parseBookInput", () => {
+  it("accepts a bare docid", () => {
+    assert.deepEqual(parseBookInput("88853415"), { docid: "88853415" });
+    assert.deepEqual(parseBookInput("  88853415\n"), { docid: "88853415" });
+  });
+
+  it("reads the docid and page of reader links", () => {
+    assert.deepEqual(
+      parseBookInput(
+        "https://univ.scholarvox.com/reader/docid/88853415/page/45"
+      ),
+      { docid: "88853415", startPage: 45 }
+    );
+    assert.deepEqual(
+      parseBookInput("univ.scholarvox.com/reader/docid/88853415/page/0"),
+      { docid: "88853415" }
+    );
+  });
+
+  it("reads catalog links, query strings and trailing slashes", () => {
+    for (const input of [
+      "https://univ.scholarvox.com/catalog/book/docid/88853415",
+      "https://univ.scholarvox.com/catalog/book/docid/88853415/",
+      "https://univ.scholarvox.com/book?docid=88853415&lang=fr",
+    ]) {
+      assert.deepEqual(parseBookInput(input), { docid: "88853415" });
+    }
+  });
+
+  it("strips quotes and punctuation around pasted text", () => {
+    assert.deepEqual(
+      parseBookInput(
+        '"<https://univ.scholarvox.com/reader/docid/88853415/page/3>".'
+      ),
+      { docid: "88853415", startPage: 3 }
+    );
+    assert.deepEqual(parseBookInput("(88853415)"), { docid: "88853415" });
+  });
+
+  it("finds a single docid among other words", () => {
+    assert.deepEqual(parseBookInput("livre 88853415 svp"), {
+      docid: "88853415",
+    });
+    assert.deepEqual(parseBookInput("C'est le 88853415. Merci"), {
+      docid: "88853415",
+    });
+    assert.deepEqual(parseBookInput("ID: 88853415, merci"), {
+      docid: "88853415",
+    });
+  });
+
+  it("rejects input without a docid", () => {
+    assert.throws(() => parseBookInput(""), /Invalid book reference/);
+    assert.throws(
+      () => parseBookInput("https://univ.scholarvox.com/catalog"),
+      /Invalid book reference ".*catalog"/
+    );
+    assert.throws(() => parseBookInput("8885 3415"), /Expected a book ID/);
+    // Ambiguous: two candidates
+    assert.throws(
+      () => parseBookInput("88853415 ou 88853416"),
+      /Invalid book reference/
+    );
+    assert.throws(() => parseBookInput("page 1234"), /Invalid book reference/);
+    assert.throws(
+      () => parseBookInput("v1.88853415"),
+      /Invalid book reference/
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { TocEntry } from "../src/helpers/tableOfContents.js";
+import { planChapterSplit } from "../src/lib/split.js";
+
+const toc: TocEntry[] = [
+  {
+    title: "Chapitre 1",
+    page: 3,
+    children: [
+      { title: "1.1 Modèle OSI", page: 3, children: [] },
+      { title: "1.2 TCP/IP", page: 5, children: [] },
+    ],
+  },
+  { title: "Chapitre 2", page: 7, children: [] },
+  { title: "Sans page", page: null, children: [] },
+];
+
+const book = [1, 2, 3, 4, 5, 6, 7, 8];
+
+describe("planChapterSplit", () => {
+  it("starts a part at every top-level chapter", () => {
+    assert.deepEqual(planChapterSplit(toc, book), [
+      { title: "Front matter", pages: [1, 2] },
+      { title: "Chapitre 1", pages: [3, 4, 5, 6] },
+      { title: "Chapitre 2", pages: [7, 8] },
+    ]);
+  });
+
+  it("splits sections too at a greater depth", () => {
+    assert.deepEqual(planChapterSplit(toc, book, 2), [
+      { title: "Front matter", pages: [1, 2] },
+      { title: "1.1 Modèle OSI", pages: [3, 4] },
+      { title: "1.2 TCP/IP", pages: [5, 6] },
+      { title: "Chapitre 2", pages: [7, 8] },
+    ]);
+  });
+
+  it("keeps only the downloaded pages and drops empty parts", () => {
+    assert.deepEqual(planChapterSplit(toc, [4, 8]), [
+      { title: "Chapitre 1", pages: [4] },
+      { title: "Chapitre 2", pages: [8] },
+    ]);
+  });
+
+  it("returns no parts without chapter pages", () => {
+    assert.deepEqual(planChapterSplit([], book), []);
+    assert.deepEqual(planChapterSplit(toc.slice(2), book), []);
+    assert.deepEqual(planChapterSplit(toc, []), []);
+  });
+});
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { runPool } from "../src/utils/workerPool.js";
+
+describe("runPool", () => {
+  it("spreads items over the workers", async () => {
+    const seen = new Map<number, string>();
+    await runPool(
+      ["a", "b"],
+      [1, 2, 3, 4],
+      async (worker, item) => {
+        await sleep(item === 1 ? 20 : 1);
+        return worker;
+      },
+      { onResult: (item, worker) => seen.set(item, worker) }
+    );
+    assert.equal(seen.size, 4);
+    // "b" keeps working while "a" is busy with item 1
+    assert.deepEqual(
+      [2, 3, 4].map(i => seen.get(i)),
+      ["b", "b", "b"]
+    );
+  });
+
+  it("retries a failed item on another worker", async () => {
+    const attempts: string[] = [];
+    await runPool(["a", "b"], [1], async worker => {
+      attempts.push(worker);
+      if (worker === "a") throw new Error("crashed");
+    });
+    assert.deepEqual(attempts, ["a", "b"]);
+  });
+
+  it("gives up after maxAttempts", async () => {
+    let attempts = 0;
+    await assert.rejects(
+      runPool(["a"], [1], async () => {
+        attempts++;
+        throw new Error("broken page");
+      }),
+      /broken page/
+    );
+    assert.equal(attempts, 3);
+  });
+
+  it("stops at once on a non-retryable error", async () => {
+    const done: number[] = [];
+    await assert.rejects(
+      runPool(
+        ["a"],
+        [1, 2, 3],
+        async (_, item) => {
+          if (item === 2) throw new Error("session lost");
+          return item;
+        },
+        {
+          retryable: err => !/session/.test(String(err)),
+          onResult: item => done.push(item),
+        }
+      ),
+      /session lost/
+    );
+    assert.deepEqual(done, [1]);
+  });
+});